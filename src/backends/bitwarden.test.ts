@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile, readFile, chmod } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import { createBitwardenBackend } from "./bitwarden.ts";
+
+/** Minimal stand-in for the `bw` CLI: items live in a JSON file, every call is logged */
+const FAKE_BW = `#!/usr/bin/env node
+const fs = require("node:fs");
+const dir = process.env.FAKE_BW_DIR;
+const args = process.argv.slice(2);
+fs.appendFileSync(dir + "/calls.log", args.slice(0, 2).join(" ") + "\\n");
+const itemsPath = dir + "/items.json";
+const items = fs.existsSync(itemsPath) ? JSON.parse(fs.readFileSync(itemsPath, "utf-8")) : [];
+const save = () => fs.writeFileSync(itemsPath, JSON.stringify(items));
+const decode = (b64) => JSON.parse(Buffer.from(b64, "base64").toString("utf-8"));
+const [cmd, what] = args;
+if (cmd === "status") console.log(JSON.stringify({ status: "unlocked" }));
+else if (cmd === "sync") console.log("Syncing complete.");
+else if (cmd === "list" && what === "organizations") console.log(JSON.stringify([{ id: "org-1", name: "Team" }]));
+else if (cmd === "list" && what === "org-collections") console.log(JSON.stringify([{ id: "col-1", name: "Secrets" }]));
+else if (cmd === "list") console.log(JSON.stringify(items.filter((i) => i.name.includes(args[3]))));
+else if (cmd === "get" && what === "item") console.log(JSON.stringify(items.find((i) => i.id === args[2])));
+else if (cmd === "create" && what === "item") {
+  const item = { ...decode(args[2]), id: "id-" + items.length };
+  items.push(item); save(); console.log(JSON.stringify(item));
+} else if (cmd === "edit" && what === "item") {
+  const item = decode(args[3]);
+  items[items.findIndex((i) => i.id === args[2])] = item; save(); console.log(JSON.stringify(item));
+} else if (cmd === "delete" && what === "item") {
+  items.splice(items.findIndex((i) => i.id === args[2]), 1); save();
+} else { console.error("unsupported: " + args.join(" ")); process.exit(1); }
+`;
+
+describe("bitwarden backend vault index", () => {
+  let dir: string;
+  const originalPath = process.env.PATH;
+  const originalSession = process.env.BW_SESSION;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(resolve(tmpdir(), "bwrss-bw-"));
+    await writeFile(resolve(dir, "bw"), FAKE_BW);
+    await chmod(resolve(dir, "bw"), 0o755);
+    await writeFile(resolve(dir, "items.json"), JSON.stringify([
+      { id: "a", name: "bwrss:one", type: 2, notes: "1" },
+      { id: "b", name: "bwrss:one@laptop", type: 2, notes: "2" },
+      { id: "c", name: "bwrss:two", type: 2, notes: "3" },
+      { id: "d", name: "unrelated", type: 1 },
+    ]));
+    process.env.PATH = `${dir}:${originalPath}`;
+    process.env.FAKE_BW_DIR = dir;
+    process.env.BW_SESSION = "test";
+  });
+
+  afterEach(async () => {
+    process.env.PATH = originalPath;
+    process.env.BW_SESSION = originalSession;
+    delete process.env.FAKE_BW_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function calls(): Promise<string[]> {
+    return (await readFile(resolve(dir, "calls.log"), "utf-8")).trim().split("\n");
+  }
+
+  test("syncs once and answers lookups from one listing", async () => {
+    const backend = createBitwardenBackend();
+    await backend.prepare();
+    await backend.prepare();
+
+    expect((await backend.findItem("bwrss:one"))?.notes).toBe("1");
+    expect((await backend.findItem("bwrss:one@laptop"))?.notes).toBe("2");
+    expect(await backend.findItem("bwrss:missing")).toBeNull();
+    expect((await backend.listItems("bwrss:")).map((i) => i.name)).toEqual(["bwrss:one", "bwrss:one@laptop", "bwrss:two"]);
+
+    expect(await calls()).toEqual(["status", "sync", "list items"]);
+  });
+
+  test("keeps the index current after writes", async () => {
+    const backend = createBitwardenBackend();
+    const one = (await backend.findItem("bwrss:one"))!;
+    await backend.updateNotes(one, "changed");
+    await backend.createItem("bwrss:three", "new");
+
+    expect((await backend.findItem("bwrss:one"))?.notes).toBe("changed");
+    expect((await backend.findItem("bwrss:three"))?.notes).toBe("new");
+    expect(await calls()).toEqual(["list items", "edit item", "create item"]);
+  });
+
+  test("drops deleted items from the index", async () => {
+    const backend = createBitwardenBackend();
+    await backend.deleteItem((await backend.findItem("bwrss:one@laptop"))!);
+
+    expect(await backend.findItem("bwrss:one@laptop")).toBeNull();
+    expect((await backend.listItems("bwrss:")).map((i) => i.name)).toEqual(["bwrss:one", "bwrss:two"]);
+    expect(await calls()).toEqual(["list items", "delete item"]);
+  });
+
+  test("moves renamed items in the index", async () => {
+    const backend = createBitwardenBackend();
+    await backend.renameItem((await backend.findItem("bwrss:one@laptop"))!, "bwrss:one@desktop");
+
+    expect(await backend.findItem("bwrss:one@laptop")).toBeNull();
+    expect((await backend.findItem("bwrss:one@desktop"))?.notes).toBe("2");
+    expect(await calls()).toEqual(["list items", "edit item"]);
+  });
+
+  test("scopes lookups and new items to an organization collection", async () => {
+    await writeFile(resolve(dir, "items.json"), JSON.stringify([
+      { id: "a", name: "bwrss:one", type: 2, notes: "personal" },
+      { id: "b", name: "bwrss:one", type: 2, notes: "team", organizationId: "org-1", collectionIds: ["col-1"] },
+    ]));
+    const target = { organization: "Team", collections: ["Secrets"] };
+    const backend = createBitwardenBackend();
+
+    expect((await backend.findItem("bwrss:one", target))?.notes).toBe("team");
+    expect((await backend.findItem("bwrss:one"))?.notes).toBe("personal");
+    expect(await backend.findItem("bwrss:two", target)).toBeNull();
+
+    const created = await backend.createItem("bwrss:two", "new", target);
+    expect(created.organization).toBe("org-1");
+    expect(created.collections).toEqual(["col-1"]);
+    expect((await backend.findItem("bwrss:two", target))?.id).toBe(created.id);
+    expect(await backend.findItem("bwrss:two", { organization: "org-1", collections: ["col-1"] })).not.toBeNull();
+
+    await expect(backend.findItem("bwrss:one", { organization: "Other", collections: ["Secrets"] })).rejects.toThrow("Organization \"Other\" not found");
+    expect(await calls()).toEqual([
+      "list organizations", "list org-collections", "list items", "create item",
+      "list organizations", "list org-collections", "list organizations",
+    ]);
+  });
+});
@@ -0,0 +1,261 @@
+import type { BwItem, ItemTarget, StorageBackend, StoredField, StoredItem } from "../types/index.ts";
+import {
+  ensureSession,
+  ensureUnlocked,
+  sync,
+  searchItems,
+  getItem,
+  listOrganizations,
+  listCollections,
+  createSecureNote,
+  renameItem,
+  updateItemNotes,
+  updateItemFields,
+  setAttachment,
+  getAttachment,
+  deleteAttachment,
+  deleteItem,
+  useBwServe,
+} from "../core/bitwarden.ts";
+import { connectBwServe, type BwServe } from "../core/bw-serve.ts";
+import { BitwardenError } from "../util/errors.ts";
+
+/** Organization and collection IDs an item target resolves to */
+interface ItemOwner {
+  organizationId: string;
+  collectionIds: string[];
+}
+
+/** Original `bw` items, kept so edits can send the full object back */
+const rawItems = new WeakMap<StoredItem, BwItem>();
+
+function toStoredItem(item: BwItem): StoredItem {
+  const stored: StoredItem = {
+    id: item.id,
+    name: item.name,
+    notes: item.notes,
+    attachments: (item.attachments ?? []).map((a) => ({
+      id: a.id,
+      fileName: a.fileName,
+      size: Number(a.size) || 0,
+    })),
+    fields: (item.fields ?? []).map((f) => ({ name: f.name, value: f.value ?? "" })),
+    ...(item.organizationId ? { organization: item.organizationId, collections: item.collectionIds ?? [] } : {}),
+  };
+  rawItems.set(stored, item);
+  return stored;
+}
+
+/** Prefix shared by every bwrss item; the vault index holds all items matching it */
+const INDEX_SEARCH = "bwrss:";
+
+/**
+ * Pick the item a lookup means among items with the same name: with an owner,
+ * the one in that organization and one of its collections; without, the
+ * personal one (or any, for items moved to an organization by hand).
+ */
+function pickItem(items: BwItem[], owner: ItemOwner | undefined): BwItem | undefined {
+  if (owner) {
+    return items.find((i) => i.organizationId === owner.organizationId
+      && i.collectionIds?.some((c) => owner.collectionIds.includes(c)));
+  }
+  return items.find((i) => !i.organizationId) ?? items[0];
+}
+
+/**
+ * Resolve a target's organization and collections, given by name or ID, to IDs.
+ */
+async function resolveOwner(target: ItemTarget): Promise<ItemOwner> {
+  const organizations = await listOrganizations();
+  const organization = organizations.find((o) => o.id === target.organization)
+    ?? organizations.find((o) => o.name === target.organization);
+  if (!organization) {
+    throw new BitwardenError(`Organization "${target.organization}" not found. Check 'organization' in the config and that you are a member.`);
+  }
+
+  const collections = await listCollections(organization.id);
+  const collectionIds = target.collections.map((wanted) => {
+    const collection = collections.find((c) => c.id === wanted) ?? collections.find((c) => c.name === wanted);
+    if (!collection) {
+      throw new BitwardenError(`Collection "${wanted}" not found in organization ${organization.name}.`);
+    }
+    return collection.id;
+  });
+  return { organizationId: organization.id, collectionIds };
+}
+
+/**
+ * Create a storage backend that keeps items as secure notes in the Bitwarden
+ * vault, using the `bw` CLI.
+ *
+ * Each backend holds a vault index for the invocation: `prepare` unlocks and
+ * syncs once, and the first lookup lists every `bwrss:` item with a single
+ * `bw list items`. Lookups are answered from the index. Writes replace the
+ * item in the index, and attachment changes mark it stale so the next lookup
+ * fetches just that item again.
+ *
+ * Item targets are resolved to organization and collection IDs once each.
+ *
+ * With `serveUrl`, calls go to that `bw serve` endpoint (started if needed)
+ * instead of spawning `bw` for each one.
+ */
+export function createBitwardenBackend(options: { serveUrl?: string } = {}): StorageBackend {
+  let prepared: Promise<void> | undefined;
+  let connection: BwServe | undefined;
+  // Items with the same name can exist in the personal vault and in organizations
+  let index: Promise<Map<string, BwItem[]>> | undefined;
+  const stale = new Set<string>();
+  const owners = new Map<string, Promise<ItemOwner>>();
+
+  function getIndex(): Promise<Map<string, BwItem[]>> {
+    index ??= searchItems(INDEX_SEARCH).then((items) => {
+      stale.clear();
+      const byName = new Map<string, BwItem[]>();
+      for (const item of items) {
+        if (!item.name.includes(INDEX_SEARCH)) continue;
+        byName.set(item.name, [...(byName.get(item.name) ?? []), item]);
+      }
+      return byName;
+    });
+    return index;
+  }
+
+  function getOwner(target: ItemTarget | undefined): Promise<ItemOwner | undefined> {
+    if (!target) return Promise.resolve(undefined);
+    const key = JSON.stringify(target);
+    let owner = owners.get(key);
+    if (!owner) {
+      owner = resolveOwner(target);
+      owners.set(key, owner);
+    }
+    return owner;
+  }
+
+  async function store(item: BwItem): Promise<void> {
+    if (index) {
+      const items = await index;
+      items.set(item.name, [...(items.get(item.name) ?? []).filter((i) => i.id !== item.id), item]);
+    }
+    stale.delete(item.id);
+  }
+
+  async function forget(item: StoredItem): Promise<void> {
+    if (!index) return;
+    const items = await index;
+    const remaining = (items.get(item.name) ?? []).filter((i) => i.id !== item.id);
+    if (remaining.length > 0) {
+      items.set(item.name, remaining);
+    } else {
+      items.delete(item.name);
+    }
+  }
+
+  async function refresh(item: BwItem): Promise<BwItem> {
+    if (!stale.has(item.id)) return item;
+    const fresh = await getItem(item.id);
+    await store(fresh);
+    return fresh;
+  }
+
+  async function remember(item: BwItem): Promise<StoredItem> {
+    await store(item);
+    return toStoredItem(item);
+  }
+
+  return {
+    name: "bitwarden",
+
+    prepare(): Promise<void> {
+      prepared ??= (async () => {
+        if (options.serveUrl) {
+          connection = await connectBwServe(options.serveUrl);
+          useBwServe(connection);
+        } else {
+          ensureSession();
+        }
+        await ensureUnlocked();
+        await sync();
+      })();
+      // A failed unlock shouldn't stick for the rest of the invocation
+      prepared.catch(() => {
+        prepared = undefined;
+      });
+      return prepared;
+    },
+
+    async findItem(name: string, target?: ItemTarget): Promise<StoredItem | null> {
+      const owner = await getOwner(target);
+      if (!name.startsWith(INDEX_SEARCH)) {
+        const item = pickItem((await searchItems(name)).filter((i) => i.name === name), owner);
+        return item ? toStoredItem(item) : null;
+      }
+      const item = pickItem((await getIndex()).get(name) ?? [], owner);
+      return item ? toStoredItem(await refresh(item)) : null;
+    },
+
+    async listItems(search: string): Promise<StoredItem[]> {
+      if (!search.startsWith(INDEX_SEARCH)) {
+        return (await searchItems(search)).map(toStoredItem);
+      }
+      const needle = search.toLowerCase();
+      const matches = [...(await getIndex()).values()].flat().filter((i) => i.name.toLowerCase().includes(needle));
+      const items: StoredItem[] = [];
+      for (const item of matches) {
+        items.push(toStoredItem(await refresh(item)));
+      }
+      return items;
+    },
+
+    async createItem(name: string, notes: string, target?: ItemTarget): Promise<StoredItem> {
+      return remember(await createSecureNote(name, notes, await getOwner(target)));
+    },
+
+    async renameItem(item: StoredItem, name: string): Promise<StoredItem> {
+      const raw = rawItems.get(item) ?? { id: item.id, name: item.name, type: 2, secureNote: { type: 0 } };
+      const renamed = await renameItem(raw, name);
+      await forget(item);
+      return remember(renamed);
+    },
+
+    async updateNotes(item: StoredItem, notes: string): Promise<StoredItem> {
+      const raw = rawItems.get(item) ?? { id: item.id, name: item.name, type: 2, secureNote: { type: 0 } };
+      return remember(await updateItemNotes(raw, notes));
+    },
+
+    async updateFields(item: StoredItem, fields: StoredField[]): Promise<StoredItem> {
+      const raw = rawItems.get(item) ?? { id: item.id, name: item.name, type: 2, secureNote: { type: 0 } };
+      return remember(await updateItemFields(raw, fields.map((f) => ({ ...f, type: 1 }))));
+    },
+
+    async readAttachment(item: StoredItem, fileName: string): Promise<Buffer | null> {
+      const attachment = item.attachments.find((a) => a.fileName === fileName);
+      if (!attachment) return null;
+      return getAttachment(item.id, attachment.id);
+    },
+
+    async writeAttachment(item: StoredItem, fileName: string, content: Buffer): Promise<void> {
+      stale.add(item.id);
+      await setAttachment(item.id, fileName, content);
+    },
+
+    async deleteAttachment(item: StoredItem, fileName: string): Promise<void> {
+      const attachment = item.attachments.find((a) => a.fileName === fileName);
+      if (!attachment) return;
+      stale.add(item.id);
+      await deleteAttachment(item.id, attachment.id);
+    },
+
+    async deleteItem(item: StoredItem): Promise<void> {
+      await deleteItem(item.id);
+      await forget(item);
+    },
+
+    close(): void {
+      if (!connection) return;
+      useBwServe(undefined);
+      connection.close();
+      connection = undefined;
+      prepared = undefined;
+    },
+  };
+}
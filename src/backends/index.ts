@@ -0,0 +1,54 @@
+import type { BackendName, StorageBackend } from "../types/index.ts";
+import { readMachineConfig } from "../core/machine-config.ts";
+import { expandHomePath } from "../core/home.ts";
+import { resolveBwServeUrl } from "../core/bw-serve.ts";
+import { ConfigError } from "../util/errors.ts";
+import { createBitwardenBackend } from "./bitwarden.ts";
+import { createLocalBackend, DEFAULT_STORE_DIR } from "./local.ts";
+
+let current: StorageBackend | undefined;
+
+/**
+ * Get the storage backend for this invocation.
+ * `BWRSS_BACKEND` / `BWRSS_STORE` / `BWRSS_BW_SERVE` override `backend` / `store` /
+ * `bwServe` in the machine config.
+ */
+export async function getBackend(): Promise<StorageBackend> {
+  if (current) return current;
+
+  const config = await readMachineConfig();
+  const name = (process.env.BWRSS_BACKEND || config.backend || "bitwarden") as BackendName;
+
+  switch (name) {
+    case "bitwarden":
+      current = createBitwardenBackend({ serveUrl: resolveBwServeUrl(config) });
+      break;
+    case "local": {
+      const store = process.env.BWRSS_STORE || config.store;
+      const dir = store ? expandHomePath(store) : DEFAULT_STORE_DIR;
+      current = createLocalBackend(dir, process.env.BWRSS_PASSPHRASE);
+      break;
+    }
+    default:
+      throw new ConfigError(`Unknown storage backend: ${name}`);
+  }
+
+  return current;
+}
+
+/**
+ * Release the storage backend of this invocation, stopping a `bw serve` it started.
+ */
+export function closeBackend(): void {
+  current?.close();
+  current = undefined;
+}
+
+/**
+ * Replace the storage backend for this invocation (used by tests).
+ */
+export function setBackend(backend: StorageBackend | undefined): void {
+  current = backend;
+}
+
+export { createBitwardenBackend, createLocalBackend };
@@ -0,0 +1,83 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, readdir, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import { createLocalBackend } from "./local.ts";
+
+describe("local backend", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(resolve(tmpdir(), "bwrss-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("creates, finds and lists items", async () => {
+    const backend = createLocalBackend(dir, "hunter2");
+    await backend.prepare();
+    await backend.createItem("bwrss:github.com/user/repo", "{}");
+    await backend.createItem("bwrss:home@laptop", "{}");
+
+    const found = await backend.findItem("bwrss:github.com/user/repo");
+    expect(found?.name).toBe("bwrss:github.com/user/repo");
+    expect(await backend.findItem("bwrss:missing")).toBeNull();
+
+    const listed = await backend.listItems("bwrss:home");
+    expect(listed.map((i) => i.name)).toEqual(["bwrss:home@laptop"]);
+  });
+
+  test("round-trips notes and attachments", async () => {
+    const backend = createLocalBackend(dir, "hunter2");
+    let item = await backend.createItem("bwrss:repo", "v1");
+    item = await backend.updateNotes(item, "v2");
+    await backend.writeAttachment(item, "bwrss-data.json", Buffer.from("first"));
+    await backend.writeAttachment(item, "bwrss-data.json", Buffer.from("second"));
+
+    const reopened = createLocalBackend(dir, "hunter2");
+    const found = await reopened.findItem("bwrss:repo");
+    expect(found?.notes).toBe("v2");
+    expect(found?.attachments.length).toBe(1);
+    expect((await reopened.readAttachment(found!, "bwrss-data.json"))?.toString("utf-8")).toBe("second");
+    expect(await reopened.readAttachment(found!, "other.json")).toBeNull();
+  });
+
+  test("renames and deletes items with their attachments", async () => {
+    const backend = createLocalBackend(dir, "hunter2");
+    const item = await backend.createItem("bwrss:repo@old", "notes");
+    await backend.writeAttachment(item, "bwrss-data.json", Buffer.from("data"));
+
+    const renamed = await backend.renameItem(item, "bwrss:repo@new");
+    expect(await backend.findItem("bwrss:repo@old")).toBeNull();
+    expect((await backend.readAttachment(renamed, "bwrss-data.json"))?.toString()).toBe("data");
+
+    await backend.deleteItem(renamed);
+    expect(await backend.listItems("bwrss:")).toEqual([]);
+    expect(await readdir(resolve(dir, "blobs"))).toEqual([]);
+  });
+
+  test("does not store plaintext on disk", async () => {
+    const backend = createLocalBackend(dir, "hunter2");
+    const item = await backend.createItem("bwrss:secret-repo", "notes");
+    await backend.writeAttachment(item, "bwrss-data.json", Buffer.from("DB_PASSWORD=s3cret"));
+
+    for (const sub of ["items", "blobs"]) {
+      for (const entry of await readdir(resolve(dir, sub))) {
+        const raw = await readFile(resolve(dir, sub, entry), "utf-8");
+        expect(raw).not.toContain("s3cret");
+        expect(raw).not.toContain("secret-repo");
+      }
+    }
+  });
+
+  test("rejects a wrong passphrase", async () => {
+    await createLocalBackend(dir, "hunter2").prepare();
+    await expect(createLocalBackend(dir, "wrong").prepare()).rejects.toThrow("Incorrect passphrase");
+  });
+
+  test("requires a passphrase", async () => {
+    await expect(createLocalBackend(dir, undefined).prepare()).rejects.toThrow("BWRSS_PASSPHRASE");
+  });
+});
@@ -0,0 +1,211 @@
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+import { randomUUID } from "node:crypto";
+import { readFile, writeFile, readdir, mkdir, unlink, access } from "node:fs/promises";
+import type { ItemTarget, StorageBackend, StoredField, StoredItem } from "../types/index.ts";
+import { deriveKey, randomSalt, encrypt, decrypt } from "../util/crypto.ts";
+import { StorageError } from "../util/errors.ts";
+
+export const DEFAULT_STORE_DIR = resolve(homedir(), ".local", "share", "bwrss", "store");
+
+const KEYINFO_FILENAME = "keyinfo.json";
+const KEY_CHECK = "bwrss-local-store";
+
+/** Unencrypted store header: salt for key derivation and a check value for the passphrase */
+interface KeyInfo {
+  version: number;
+  salt: string;
+  check: string;
+}
+
+/**
+ * Create a storage backend that keeps items in a passphrase-encrypted directory.
+ *
+ * Layout:
+ *   <dir>/keyinfo.json       salt + passphrase check (not secret)
+ *   <dir>/items/<id>.bin     encrypted item JSON (name, notes, fields, attachment list)
+ *   <dir>/blobs/<id>.bin     encrypted attachment content
+ *
+ * Every file is encrypted with AES-256-GCM using a key derived from the
+ * passphrase with scrypt, so item names are not visible on disk either.
+ */
+export function createLocalBackend(dir: string, passphrase: string | undefined): StorageBackend {
+  const itemsDir = resolve(dir, "items");
+  const blobsDir = resolve(dir, "blobs");
+  let keyPromise: Promise<Buffer> | undefined;
+
+  function getKey(): Promise<Buffer> {
+    keyPromise ??= openStore(dir, passphrase);
+    return keyPromise;
+  }
+
+  async function readEncrypted(path: string): Promise<Buffer> {
+    const key = await getKey();
+    try {
+      return decrypt(key, await readFile(path));
+    } catch {
+      throw new StorageError(`Cannot decrypt ${path}: the local store is corrupted or was modified.`);
+    }
+  }
+
+  async function writeEncrypted(path: string, data: Buffer): Promise<void> {
+    const key = await getKey();
+    await writeFile(path, encrypt(key, data), { mode: 0o600 });
+  }
+
+  async function readItem(id: string): Promise<StoredItem> {
+    const data = await readEncrypted(resolve(itemsDir, `${id}.bin`));
+    return JSON.parse(data.toString("utf-8"));
+  }
+
+  async function writeItem(item: StoredItem): Promise<void> {
+    await writeEncrypted(resolve(itemsDir, `${item.id}.bin`), Buffer.from(JSON.stringify(item), "utf-8"));
+  }
+
+  async function allItems(): Promise<StoredItem[]> {
+    await getKey();
+    const entries = await readdir(itemsDir).catch(() => [] as string[]);
+    const items: StoredItem[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith(".bin")) continue;
+      items.push(await readItem(entry.slice(0, -".bin".length)));
+    }
+    return items;
+  }
+
+  return {
+    name: "local",
+
+    async prepare(): Promise<void> {
+      await getKey();
+    },
+
+    async findItem(name: string, target?: ItemTarget): Promise<StoredItem | null> {
+      const items = (await allItems()).filter((i) => i.name === name);
+      if (target) {
+        return items.find((i) => i.organization === target.organization
+          && i.collections?.some((c) => target.collections.includes(c))) ?? null;
+      }
+      return items.find((i) => !i.organization) ?? items[0] ?? null;
+    },
+
+    async listItems(search: string): Promise<StoredItem[]> {
+      const needle = search.toLowerCase();
+      const items = await allItems();
+      return items.filter((i) => i.name.toLowerCase().includes(needle));
+    },
+
+    async createItem(name: string, notes: string, target?: ItemTarget): Promise<StoredItem> {
+      await getKey();
+      const item: StoredItem = {
+        id: randomUUID(),
+        name,
+        notes,
+        attachments: [],
+        ...(target ? { organization: target.organization, collections: target.collections } : {}),
+      };
+      await writeItem(item);
+      return item;
+    },
+
+    async renameItem(item: StoredItem, name: string): Promise<StoredItem> {
+      const current = await readItem(item.id);
+      const updated = { ...current, name };
+      await writeItem(updated);
+      return updated;
+    },
+
+    async updateNotes(item: StoredItem, notes: string): Promise<StoredItem> {
+      const current = await readItem(item.id);
+      const updated = { ...current, notes };
+      await writeItem(updated);
+      return updated;
+    },
+
+    async updateFields(item: StoredItem, fields: StoredField[]): Promise<StoredItem> {
+      const current = await readItem(item.id);
+      const updated = { ...current, fields };
+      await writeItem(updated);
+      return updated;
+    },
+
+    async readAttachment(item: StoredItem, fileName: string): Promise<Buffer | null> {
+      const current = await readItem(item.id);
+      const attachment = current.attachments.find((a) => a.fileName === fileName);
+      if (!attachment) return null;
+      return readEncrypted(resolve(blobsDir, `${attachment.id}.bin`));
+    },
+
+    async writeAttachment(item: StoredItem, fileName: string, content: Buffer): Promise<void> {
+      const current = await readItem(item.id);
+      const existing = current.attachments.find((a) => a.fileName === fileName);
+      if (existing) {
+        await unlink(resolve(blobsDir, `${existing.id}.bin`)).catch(() => {});
+      }
+
+      const id = randomUUID();
+      await writeEncrypted(resolve(blobsDir, `${id}.bin`), content);
+
+      current.attachments = [
+        ...current.attachments.filter((a) => a.fileName !== fileName),
+        { id, fileName, size: content.length },
+      ];
+      await writeItem(current);
+    },
+
+    async deleteAttachment(item: StoredItem, fileName: string): Promise<void> {
+      const current = await readItem(item.id);
+      const existing = current.attachments.find((a) => a.fileName === fileName);
+      if (!existing) return;
+      await unlink(resolve(blobsDir, `${existing.id}.bin`)).catch(() => {});
+      current.attachments = current.attachments.filter((a) => a.fileName !== fileName);
+      await writeItem(current);
+    },
+
+    async deleteItem(item: StoredItem): Promise<void> {
+      const current = await readItem(item.id);
+      for (const attachment of current.attachments) {
+        await unlink(resolve(blobsDir, `${attachment.id}.bin`)).catch(() => {});
+      }
+      await unlink(resolve(itemsDir, `${item.id}.bin`));
+    },
+
+    close(): void {},
+  };
+}
+
+/**
+ * Open (or initialize) the store and return the derived key.
+ * Throws StorageError if the passphrase is missing or wrong.
+ */
+async function openStore(dir: string, passphrase: string | undefined): Promise<Buffer> {
+  if (!passphrase) {
+    throw new StorageError("No passphrase for the local store. Set BWRSS_PASSPHRASE.");
+  }
+
+  const keyInfoPath = resolve(dir, KEYINFO_FILENAME);
+  const exists = await access(keyInfoPath).then(() => true, () => false);
+
+  if (!exists) {
+    await mkdir(resolve(dir, "items"), { recursive: true, mode: 0o700 });
+    await mkdir(resolve(dir, "blobs"), { recursive: true, mode: 0o700 });
+    const salt = randomSalt();
+    const key = await deriveKey(passphrase, salt);
+    const info: KeyInfo = {
+      version: 1,
+      salt: salt.toString("base64"),
+      check: encrypt(key, Buffer.from(KEY_CHECK, "utf-8")).toString("base64"),
+    };
+    await writeFile(keyInfoPath, JSON.stringify(info, null, 2), { mode: 0o600 });
+    return key;
+  }
+
+  const info: KeyInfo = JSON.parse(await readFile(keyInfoPath, "utf-8"));
+  const key = await deriveKey(passphrase, Buffer.from(info.salt, "base64"));
+  try {
+    decrypt(key, Buffer.from(info.check, "base64"));
+  } catch {
+    throw new StorageError(`Incorrect passphrase for the local store at ${dir}.`);
+  }
+  return key;
+}
@@ -0,0 +1,209 @@
+import { resolve } from "node:path";
+import { readFile, access } from "node:fs/promises";
+import chalk from "chalk";
+import ora from "ora";
+import { findRepos, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
+import { getParser } from "../parsers/index.ts";
+import { log } from "../util/logger.ts";
+import { isReferenceOnly } from "../core/references.ts";
+import { getFileMode, modeToString } from "../util/permissions.ts";
+import { getMachineName } from "../core/machine.ts";
+import { prepareStorage, mergePayloads, fetchPayload, fetchMachinePayload, resolveStoredName } from "../core/sync.ts";
+import { unifiedDiff, diffKeys, redactLine } from "../util/diff.ts";
+import { filterByPatterns } from "../util/dotpath.ts";
+import { readFilePayload } from "../core/files.ts";
+import type { FilePayload, ManagedFile } from "../types/index.ts";
+
+/**
+ * `bwrss diff` — compare local secret files against the stored payloads.
+ * `-` lines come from the vault, `+` lines from the local file.
+ */
+export async function diffCommand(dirs: string[], options: { showValues?: boolean }): Promise<void> {
+  const repoRoots: string[] = [];
+  for (const dir of dirs) {
+    const found = await findRepos(resolve(dir));
+    repoRoots.push(...found);
+  }
+
+  if (repoRoots.length === 0) {
+    log.warn("No git repositories found.");
+    return;
+  }
+
+  for (const repoRoot of repoRoots) {
+    if (!(await configExists(repoRoot))) {
+      log.dim(`Skipping ${repoRoot} (no .bwrss config)`);
+      continue;
+    }
+
+    const config = await readConfig(repoRoot);
+    const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+
+    const hasMachineFiles = config.files.some((f) => f.machine);
+    let machineName: string | undefined;
+    if (hasMachineFiles) {
+      machineName = await getMachineName();
+    }
+
+    const spinner = ora(`Fetching secrets for ${canonicalName}...`).start();
+
+    try {
+      await prepareStorage();
+      const storedName = await resolveStoredName(repoRoot, config, canonicalName, machineName);
+      const sharedPayloads = await fetchPayload(storedName, { encryption: config.encryption, target: itemTarget(config) });
+      const machinePayloads = machineName
+        ? await fetchMachinePayload(storedName, machineName, { encryption: config.encryption, target: itemTarget(config) })
+        : null;
+      spinner.stop();
+
+      const remote = mergePayloads(sharedPayloads ?? [], machinePayloads ?? []);
+
+      console.log();
+      console.log(chalk.bold(`bwrss:${storedName}`) + chalk.dim(` (${repoRoot})`));
+
+      let changed = 0;
+      for (const managedFile of config.files) {
+        if (isReferenceOnly(managedFile)) continue;
+        const filePayload = remote.find((p) => p.path === managedFile.path);
+        const differs = await printFileDiff(
+          managedFile.path,
+          resolve(repoRoot, managedFile.path),
+          managedFile,
+          filePayload,
+          options,
+          managedFile.template && resolve(repoRoot, managedFile.template),
+        );
+        if (differs) changed++;
+      }
+
+      console.log(changed > 0 ? `${changed} file(s) differ` : chalk.green("Up to date"));
+    } catch (e) {
+      spinner.fail(`Failed to diff secrets for ${canonicalName}`);
+      log.error(e instanceof Error ? e.message : String(e));
+    }
+  }
+}
+
+/**
+ * Print the differences between a local file and its stored payload.
+ * `templatePath` locates the template of a rendered file.
+ * Returns true if they differ.
+ */
+export async function printFileDiff(
+  label: string,
+  filePath: string,
+  managedFile: ManagedFile,
+  filePayload: FilePayload | undefined,
+  options: { showValues?: boolean },
+  templatePath?: string,
+): Promise<boolean> {
+  const exists = await access(filePath).then(() => true, () => false);
+
+  if (!filePayload && !exists) {
+    console.log(chalk.dim(`  ${label} (not saved, missing locally)`));
+    return false;
+  }
+  if (!filePayload) {
+    console.log(chalk.yellow(`  ${label}`) + chalk.dim(" (only local — not saved yet)"));
+    return true;
+  }
+  if (!exists) {
+    console.log(chalk.yellow(`  ${label}`) + chalk.dim(" (only in vault — missing locally)"));
+    return true;
+  }
+
+  const buf = Buffer.from(await readFile(filePath));
+  const localMode = await getFileMode(filePath);
+  const modeDiffers = filePayload.mode !== undefined && filePayload.mode !== localMode;
+  const modeNote = modeDiffers
+    ? chalk.dim(` (mode ${modeToString(filePayload.mode!)} → ${modeToString(localMode)})`)
+    : "";
+
+  if (filePayload.content !== undefined) {
+    if (filePayload.encoding === "base64") {
+      const same = Buffer.from(filePayload.content, "base64").equals(buf);
+      if (same && !modeDiffers) return false;
+      console.log(chalk.cyan(`  ${label}`) + (same ? "" : chalk.dim(" (binary files differ)")) + modeNote);
+      return true;
+    }
+
+    const lines = unifiedDiff(filePayload.content, buf.toString("utf-8"), {
+      oldLabel: `vault/${label}`,
+      newLabel: `local/${label}`,
+      transform: options.showValues ? undefined : redactLine,
+    });
+    if (lines.length === 0 && !modeDiffers) return false;
+
+    console.log(chalk.cyan(`  ${label}`) + modeNote);
+    for (const line of lines) {
+      console.log("    " + colorDiffLine(line));
+    }
+    return true;
+  }
+
+  if (filePayload.keys) {
+    let localKeys: Record<string, string>;
+    if (managedFile.template && templatePath) {
+      try {
+        localKeys = (await readFilePayload(filePath, managedFile, templatePath)).keys!;
+      } catch (e) {
+        log.warn(e instanceof Error ? e.message : String(e));
+        return true;
+      }
+    } else {
+      const parser = getParser(managedFile.path);
+      if (!parser) {
+        log.warn(`No parser for ${label}, cannot compare keys.`);
+        return false;
+      }
+
+      let all: Record<string, string>;
+      try {
+        all = parser.parse(buf.toString("utf-8"));
+      } catch (e) {
+        log.warn(`Cannot parse ${label}: ${e instanceof Error ? e.message : String(e)}`);
+        return false;
+      }
+      localKeys = managedFile.keys && managedFile.keys.length > 0
+        ? filterByPatterns(all, managedFile.keys)
+        : Object.fromEntries(Object.entries(all).filter(([key]) => key in filePayload.keys!));
+    }
+
+    const changes = diffKeys(filePayload.keys, localKeys);
+    if (changes.length === 0 && !modeDiffers) return false;
+
+    console.log(chalk.cyan(`  ${label}`) + chalk.dim(` (${changes.length} key change(s))`) + modeNote);
+    for (const change of changes) {
+      const status = change.status === "added"
+        ? chalk.green(padRight("added", 10))
+        : change.status === "removed"
+          ? chalk.red(padRight("removed", 10))
+          : chalk.yellow(padRight("changed", 10));
+      let values = "";
+      if (options.showValues) {
+        values = change.status === "added"
+          ? chalk.green(change.newValue ?? "")
+          : change.status === "removed"
+            ? chalk.red(change.oldValue ?? "")
+            : `${chalk.red(change.oldValue ?? "")} → ${chalk.green(change.newValue ?? "")}`;
+      }
+      console.log(`    ${status}${padRight(change.key, 32)}${values}`);
+    }
+    return true;
+  }
+
+  return false;
+}
+
+function colorDiffLine(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) return chalk.bold(line);
+  if (line.startsWith("@@")) return chalk.cyan(line);
+  if (line.startsWith("+")) return chalk.green(line);
+  if (line.startsWith("-")) return chalk.red(line);
+  return chalk.dim(line);
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str + " " : str + " ".repeat(len - str.length);
+}
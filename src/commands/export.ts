@@ -0,0 +1,61 @@
+import { resolve } from "node:path";
+import chalk from "chalk";
+import ora from "ora";
+import { findRepoRoot, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
+import { log } from "../util/logger.ts";
+import { getMachineName } from "../core/machine.ts";
+import { prepareStorage, fetchMergedPayloads, resolveStoredName } from "../core/sync.ts";
+import { collectVariables } from "../core/env.ts";
+import { formatVariables, type ExportFormat } from "../core/export.ts";
+
+/**
+ * `bwrss export` — print the repo's secrets to stdout in a format for scripts
+ * and CI, without writing any file. Messages go to stderr.
+ */
+export async function exportCommand(
+  dir: string,
+  options: { file?: string[]; format: ExportFormat; name?: string },
+): Promise<void> {
+  const repoRoot = await findRepoRoot(resolve(dir));
+  if (!repoRoot || !(await configExists(repoRoot))) {
+    log.error(`No .bwrss config found for ${resolve(dir)}`);
+    process.exit(1);
+  }
+
+  const config = await readConfig(repoRoot);
+  const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+  const unknown = (options.file ?? []).filter((path) => !config.files.some((f) => f.path === path));
+  if (unknown.length > 0) {
+    log.error(`Not managed in .bwrss: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+  const files = options.file ? config.files.filter((f) => options.file!.includes(f.path)) : config.files;
+
+  let machineName: string | undefined;
+  if (files.some((f) => f.machine)) {
+    machineName = await getMachineName();
+  }
+
+  const spinner = ora(`Fetching secrets for ${canonicalName}...`).start();
+
+  try {
+    await prepareStorage();
+    const storedName = await resolveStoredName(repoRoot, config, canonicalName, machineName);
+    const payloads = await fetchMergedPayloads(storedName, machineName, {
+      encryption: config.encryption,
+      target: itemTarget(config),
+    }) ?? [];
+    spinner.stop();
+
+    const { variables, skipped } = await collectVariables(files, payloads);
+    for (const path of skipped) {
+      console.error(chalk.dim(`Skipping ${path} (no key-value format)`));
+    }
+    process.stdout.write(formatVariables(variables, options.format, options.name ?? canonicalName));
+  } catch (e) {
+    spinner.fail(`Failed to export secrets for ${canonicalName}`);
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,49 @@
+import { resolve } from "node:path";
+import { findRepoRoot, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
+import { log } from "../util/logger.ts";
+import { getMachineName } from "../core/machine.ts";
+import { prepareStorage, fetchPayload, fetchMachinePayload, resolveStoredName } from "../core/sync.ts";
+import { resolveReferences } from "../core/references.ts";
+import { parseKeySpec, readValue } from "../core/values.ts";
+
+/**
+ * `bwrss get <file>:<key>` — print one stored value to stdout.
+ */
+export async function getCommand(spec: string, options: { dir?: string }): Promise<void> {
+  const repoRoot = await findRepoRoot(resolve(options.dir ?? "."));
+  if (!repoRoot || !(await configExists(repoRoot))) {
+    log.error(`No .bwrss config found for ${resolve(options.dir ?? ".")}`);
+    process.exit(1);
+  }
+
+  try {
+    const config = await readConfig(repoRoot);
+    const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+    const { file, key } = parseKeySpec(spec, config.files);
+
+    await prepareStorage();
+    let value: string | undefined;
+    if (file.refs?.[key]) {
+      value = (await resolveReferences({ [key]: file.refs[key] }))[key];
+    } else {
+      const fetchOptions = { encryption: config.encryption, target: itemTarget(config) };
+      const machineName = file.machine ? await getMachineName() : undefined;
+      const storedName = await resolveStoredName(repoRoot, config, canonicalName, machineName);
+      const payloads = machineName
+        ? await fetchMachinePayload(storedName, machineName, fetchOptions)
+        : await fetchPayload(storedName, fetchOptions);
+      const payload = payloads?.find((p) => p.path === file.path);
+      value = payload && readValue(payload, key);
+    }
+
+    if (value === undefined) {
+      log.error(`No value stored for ${file.path}:${key} in ${canonicalName}.`);
+      process.exit(1);
+    }
+    process.stdout.write(`${value}\n`);
+  } catch (e) {
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+}
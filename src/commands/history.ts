@@ -0,0 +1,87 @@
+import { resolve } from "node:path";
+import chalk from "chalk";
+import ora from "ora";
+import { findRepos, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
+import { log } from "../util/logger.ts";
+import { getMachineName } from "../core/machine.ts";
+import { prepareStorage, listGenerations, itemName, resolveStoredName } from "../core/sync.ts";
+import type { PayloadGeneration } from "../types/index.ts";
+
+/**
+ * `bwrss history` — list the stored payload generations for repos.
+ */
+export async function historyCommand(dirs: string[]): Promise<void> {
+  const repoRoots: string[] = [];
+  for (const dir of dirs) {
+    const found = await findRepos(resolve(dir));
+    repoRoots.push(...found);
+  }
+
+  if (repoRoots.length === 0) {
+    log.warn("No git repositories found.");
+    return;
+  }
+
+  for (const repoRoot of repoRoots) {
+    if (!(await configExists(repoRoot))) {
+      log.dim(`Skipping ${repoRoot} (no .bwrss config)`);
+      continue;
+    }
+
+    const config = await readConfig(repoRoot);
+    const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+
+    const hasMachineFiles = config.files.some((f) => f.machine);
+    let machineName: string | undefined;
+    if (hasMachineFiles) {
+      machineName = await getMachineName();
+    }
+
+    const spinner = ora(`Fetching history for ${canonicalName}...`).start();
+
+    try {
+      await prepareStorage();
+      const storedName = await resolveStoredName(repoRoot, config, canonicalName, machineName);
+      const shared = await listGenerations(storedName, undefined, itemTarget(config));
+      const machine = machineName ? await listGenerations(storedName, machineName, itemTarget(config)) : null;
+      spinner.stop();
+
+      if (!shared && !machine) {
+        log.warn(`No data found for ${itemName(canonicalName)}`);
+        continue;
+      }
+
+      if (shared) printGenerations(itemName(storedName), shared);
+      if (machine) printGenerations(itemName(storedName, machineName), machine);
+    } catch (e) {
+      spinner.fail(`Failed to fetch history for ${canonicalName}`);
+      log.error(e instanceof Error ? e.message : String(e));
+    }
+  }
+}
+
+function printGenerations(name: string, generations: PayloadGeneration[]): void {
+  console.log();
+  console.log(chalk.bold(name));
+  console.log(chalk.dim("─".repeat(80)));
+  console.log(chalk.dim(padRight("Gen", 6) + padRight("Saved", 28) + "Files"));
+  console.log(chalk.dim("─".repeat(80)));
+
+  generations.forEach((g, i) => {
+    const marker = i === 0 ? chalk.green(" (current)") : "";
+    console.log(
+      padRight(String(g.generation), 6) +
+      padRight(g.timestamp || "unknown", 28) +
+      (g.files.length > 0 ? g.files.join(", ") : chalk.dim("(no files)")) +
+      marker,
+    );
+  });
+
+  console.log(chalk.dim("─".repeat(80)));
+  console.log(chalk.dim("Restore one with: bwrss restore --at <gen|timestamp> --force"));
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str.slice(0, len) : str + " ".repeat(len - str.length);
+}
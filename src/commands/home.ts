@@ -1,29 +1,22 @@
-import { readFile, writeFile, access, mkdir } from "node:fs/promises";
+import { writeFile, access, mkdir } from "node:fs/promises";
 import { dirname } from "node:path";
 import chalk from "chalk";
 import ora from "ora";
 import { homeConfigPath, homeConfigExists, readHomeConfig, writeHomeConfig, resolveHomePath } from "../core/home.ts";
-import { ensureUnlocked, sync } from "../core/bitwarden.ts";
+import { itemTarget } from "../core/config.ts";
 import { getMachineName, chooseMachineName } from "../core/machine.ts";
-import { splitByMachine, uploadPayload, uploadMachinePayload, mergePayloads, fetchPayload, fetchMachinePayload } from "../core/sync.ts";
-import { getFileMode, setFileMode, modeToString } from "../util/permissions.ts";
+import { prepareStorage, splitByMachine, uploadPayload, uploadMachinePayload, mergePayloads, fetchPayload, fetchMachinePayload, recordFetched, type FetchedGeneration } from "../core/sync.ts";
+import { setFileMode, modeToString } from "../util/permissions.ts";
+import { readFilePayload, fileMatchesPayload } from "../core/files.ts";
 import { detectHomeSecrets } from "../util/home-patterns.ts";
 import { log } from "../util/logger.ts";
+import { printFileDiff } from "./diff.ts";
+import { printStatusEntries } from "./status.ts";
+import { getFileStatuses } from "../core/status.ts";
 import type { BwrssConfig, FilePayload, ManagedFile } from "../types/index.ts";
 
 const HOME_CANONICAL_NAME = "home";
 
-/**
- * Detect whether a buffer contains binary content.
- */
-function isBinary(buf: Buffer): boolean {
-  const len = Math.min(buf.length, 8192);
-  for (let i = 0; i < len; i++) {
-    if (buf[i] === 0) return true;
-  }
-  return false;
-}
-
 /**
  * `bwrss home init` — detect home secrets and generate ~/.config/bwrss/home.yaml.
  */
@@ -429,7 +422,7 @@ function matchIgnorePattern(path: string, pattern: string): boolean {
 /**
  * `bwrss home save` — save home secrets to Bitwarden.
  */
-export async function homeSaveCommand(options: { dryRun?: boolean }): Promise<void> {
+export async function homeSaveCommand(options: { dryRun?: boolean; force?: boolean; merge?: boolean }): Promise<void> {
   if (!(await homeConfigExists())) {
     log.error(`No home config found. Run 'bwrss home init' first.`);
     return;
@@ -457,17 +450,8 @@ export async function homeSaveCommand(options: { dryRun?: boolean }): Promise<vo
       continue;
     }
 
-    const mode = await getFileMode(filePath);
-    const buf = Buffer.from(await readFile(filePath));
-    const binary = isBinary(buf);
-
-    const content = binary ? buf.toString("base64") : buf.toString("utf-8");
-    filePayloads.push({
-      path: managedFile.path,
-      content,
-      mode,
-      ...(binary ? { encoding: "base64" as const } : {}),
-    });
+    // Home files are always stored whole
+    filePayloads.push(await readFilePayload(filePath, { path: managedFile.path }));
   }
 
   if (filePayloads.length === 0) {
@@ -500,15 +484,20 @@ export async function homeSaveCommand(options: { dryRun?: boolean }): Promise<vo
   const spinner = ora(`Saving home secrets...`).start();
 
   try {
-    await ensureUnlocked();
-    await sync();
+    await prepareStorage();
+    const uploadOptions = {
+      ...options,
+      encryption: config.encryption,
+      target: itemTarget(config),
+      keyFields: config.keyFields,
+    };
 
     if (shared.length > 0) {
-      await uploadPayload(noteName, canonicalName, shared, spinner);
+      await uploadPayload(canonicalName, shared, spinner, uploadOptions);
     }
 
     if (machine.length > 0 && machineName) {
-      await uploadMachinePayload(canonicalName, machineName, machine, spinner);
+      await uploadMachinePayload(canonicalName, machineName, machine, spinner, uploadOptions);
     }
 
     const totalFiles = shared.length + machine.length;
@@ -550,20 +539,21 @@ export async function homeRestoreCommand(options: { dryRun?: boolean; force?: bo
   }
 
   const spinner = ora(`Restoring home secrets...`).start();
+  const fetched: FetchedGeneration[] = [];
+  const skipped = new Set<string>();
 
   try {
-    await ensureUnlocked();
-    await sync();
+    await prepareStorage();
 
     // Fetch shared payloads
     spinner.text = "Downloading shared secrets...";
-    const sharedPayloads = await fetchPayload(canonicalName);
+    const sharedPayloads = await fetchPayload(canonicalName, { fetched, encryption: config.encryption, target: itemTarget(config) });
 
     // Fetch machine-specific payloads if needed
     let machinePayloads: FilePayload[] | null = null;
     if (machineName) {
       spinner.text = `Downloading machine secrets for ${machineName}...`;
-      machinePayloads = await fetchMachinePayload(canonicalName, machineName);
+      machinePayloads = await fetchMachinePayload(canonicalName, machineName, { fetched, encryption: config.encryption, target: itemTarget(config) });
     }
 
     if (!sharedPayloads && !machinePayloads) {
@@ -591,11 +581,16 @@ export async function homeRestoreCommand(options: { dryRun?: boolean; force?: bo
       if (filePayload.content === undefined) continue;
 
       if (fileExists && !options.force) {
+        if (await fileMatchesPayload(filePath, config.files.find((f) => f.path === filePayload.path)!, filePayload)) {
+          log.dim(`~/${filePayload.path} is up to date.`);
+          continue;
+        }
         if (options.dryRun) {
           console.log(chalk.yellow(`  ~/${filePayload.path}`) + chalk.dim(" (exists, would skip without --force)"));
           continue;
         }
         log.warn(`~/${filePayload.path} exists, skipping (use --force to overwrite).`);
+        skipped.add(filePayload.path);
         continue;
       }
 
@@ -626,12 +621,102 @@ export async function homeRestoreCommand(options: { dryRun?: boolean; force?: bo
 
       log.success(`Restored ~/${filePayload.path}` + (filePayload.mode !== undefined ? ` (${modeToString(filePayload.mode)})` : ""));
     }
+
+    if (!options.dryRun) {
+      await recordFetched(fetched, skipped);
+    }
   } catch (e) {
     spinner.fail("Failed to restore home secrets");
     log.error(e instanceof Error ? e.message : String(e));
   }
 }
 
+/**
+ * `bwrss home diff` — compare local home files against the stored payloads.
+ */
+export async function homeDiffCommand(options: { showValues?: boolean }): Promise<void> {
+  if (!(await homeConfigExists())) {
+    log.error(`No home config found. Run 'bwrss home init' first.`);
+    return;
+  }
+
+  const config = await readHomeConfig();
+  const canonicalName = config.name ?? HOME_CANONICAL_NAME;
+
+  const hasMachineFiles = config.files.some((f) => f.machine);
+  let machineName: string | undefined;
+  if (hasMachineFiles) {
+    machineName = await getMachineName();
+  }
+
+  const spinner = ora(`Fetching home secrets...`).start();
+
+  try {
+    await prepareStorage();
+    const sharedPayloads = await fetchPayload(canonicalName, { encryption: config.encryption, target: itemTarget(config) });
+    const machinePayloads = machineName
+      ? await fetchMachinePayload(canonicalName, machineName, { encryption: config.encryption, target: itemTarget(config) })
+      : null;
+    spinner.stop();
+
+    const remote = mergePayloads(sharedPayloads ?? [], machinePayloads ?? []);
+
+    console.log();
+    let changed = 0;
+    for (const managedFile of config.files) {
+      const filePayload = remote.find((p) => p.path === managedFile.path);
+      const differs = await printFileDiff(
+        `~/${managedFile.path}`,
+        resolveHomePath(managedFile.path),
+        managedFile,
+        filePayload,
+        options,
+      );
+      if (differs) changed++;
+    }
+
+    console.log(changed > 0 ? `${changed} file(s) differ` : chalk.green("Up to date"));
+  } catch (e) {
+    spinner.fail("Failed to diff home secrets");
+    log.error(e instanceof Error ? e.message : String(e));
+  }
+}
+
+/**
+ * `bwrss home status` — show whether each home file is in sync with the vault.
+ */
+export async function homeStatusCommand(): Promise<void> {
+  if (!(await homeConfigExists())) {
+    log.error(`No home config found. Run 'bwrss home init' first.`);
+    return;
+  }
+
+  const config = await readHomeConfig();
+  const canonicalName = config.name ?? HOME_CANONICAL_NAME;
+
+  const hasMachineFiles = config.files.some((f) => f.machine);
+  let machineName: string | undefined;
+  if (hasMachineFiles) {
+    machineName = await getMachineName();
+  }
+
+  const spinner = ora(`Checking home secrets...`).start();
+
+  try {
+    await prepareStorage();
+    // Home files are always stored whole
+    const files = config.files.map((f) => ({ path: f.path, ...(f.machine ? { machine: true } : {}) }));
+    const entries = await getFileStatuses(canonicalName, machineName, files, resolveHomePath, { encryption: config.encryption, target: itemTarget(config) });
+    spinner.stop();
+
+    console.log();
+    printStatusEntries(entries, "~/");
+  } catch (e) {
+    spinner.fail("Failed to check home secrets");
+    log.error(e instanceof Error ? e.message : String(e));
+  }
+}
+
 function padRight(str: string, len: number): string {
   // Strip ANSI codes for length calculation
   const stripped = str.replace(/\x1b\[[0-9;]*m/g, "");
@@ -0,0 +1,102 @@
+import { resolve } from "node:path";
+import chalk from "chalk";
+import ora from "ora";
+import { findRepos, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists } from "../core/config.ts";
+import { log } from "../util/logger.ts";
+import { prepareStorage, listStoredItems } from "../core/sync.ts";
+import type { RemoteItemInfo } from "../types/index.ts";
+
+/**
+ * `bwrss list` — show the repos under `dirs` that have a `.bwrss` config, or
+ * with `remote`, every repo and home profile stored in the vault.
+ */
+export async function listCommand(dirs: string[], options: { remote?: boolean; json?: boolean }): Promise<void> {
+  if (options.remote) {
+    await listRemote(options);
+    return;
+  }
+
+  const repos: { name: string; path: string; files: string[] }[] = [];
+  for (const dir of dirs) {
+    for (const repoRoot of await findRepos(resolve(dir))) {
+      if (!(await configExists(repoRoot))) continue;
+      const config = await readConfig(repoRoot);
+      repos.push({
+        name: config.name ?? await getCanonicalName(repoRoot),
+        path: repoRoot,
+        files: config.files.map((f) => f.path),
+      });
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(repos, null, 2));
+    return;
+  }
+  if (repos.length === 0) {
+    log.warn("No repos with a .bwrss config found.");
+    return;
+  }
+  for (const repo of repos) {
+    console.log(chalk.bold(repo.name) + chalk.dim(`  ${repo.path}`));
+    console.log(`  ${repo.files.length > 0 ? repo.files.join(", ") : chalk.dim("(no files)")}`);
+  }
+}
+
+async function listRemote(options: { json?: boolean }): Promise<void> {
+  const spinner = ora("Listing bwrss items...").start();
+  let items: RemoteItemInfo[];
+  try {
+    await prepareStorage();
+    items = await listStoredItems();
+    spinner.stop();
+  } catch (e) {
+    spinner.fail("Failed to list bwrss items");
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(items, null, 2));
+    return;
+  }
+  if (items.length === 0) {
+    log.info("No bwrss items stored yet.");
+    return;
+  }
+
+  const byName = new Map<string, RemoteItemInfo[]>();
+  for (const item of items) {
+    byName.set(item.name, [...(byName.get(item.name) ?? []), item]);
+  }
+
+  for (const [name, group] of byName) {
+    const machines = group.filter((i) => i.machine !== undefined).map((i) => i.machine!);
+    console.log();
+    console.log(chalk.bold(name) + (machines.length > 0 ? chalk.dim(`  machines: ${machines.join(", ")}`) : ""));
+    // Shared item first, then its machine variants
+    for (const item of group.sort((a, b) => (a.machine ?? "").localeCompare(b.machine ?? ""))) {
+      const label = item.machine !== undefined ? `@${item.machine}` : "(shared)";
+      const details = [formatSize(item.size), ...(item.encrypted ? ["encrypted"] : []), ...(item.organization ? ["organization"] : [])];
+      console.log(
+        "  " +
+        padRight(label, 18) +
+        padRight(item.lastSave || "unknown", 28) +
+        padRight(details.join(", "), 24) +
+        (item.files.length > 0 ? item.files.join(", ") : chalk.dim("(no files)")),
+      );
+    }
+  }
+  console.log();
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str + " " : str + " ".repeat(len - str.length);
+}
@@ -0,0 +1,103 @@
+import { createInterface } from "node:readline/promises";
+import chalk from "chalk";
+import ora from "ora";
+import { log } from "../util/logger.ts";
+import { readMachineConfig } from "../core/machine-config.ts";
+import { renameMachine, copyMachine, deleteMachine } from "../core/machine.ts";
+import { prepareStorage, listStoredItems } from "../core/sync.ts";
+
+/**
+ * `bwrss machine list` — show the machines that have items in the vault.
+ */
+export async function machineListCommand(): Promise<void> {
+  const spinner = ora("Listing machines...").start();
+  try {
+    await prepareStorage();
+    const items = (await listStoredItems()).filter((i) => i.machine !== undefined);
+    spinner.stop();
+
+    const current = (await readMachineConfig()).machine;
+    const machines = [...new Set(items.map((i) => i.machine!))].sort((a, b) => a.localeCompare(b));
+    if (machines.length === 0) {
+      log.info("No machine-specific items stored yet.");
+      return;
+    }
+
+    console.log(chalk.dim(padRight("Machine", 24) + padRight("Last save", 28) + "Items"));
+    for (const machine of machines) {
+      const own = items.filter((i) => i.machine === machine);
+      const lastSave = own.reduce((latest, i) => (i.lastSave > latest ? i.lastSave : latest), "");
+      const marker = machine === current ? chalk.green(" *") : "";
+      console.log(padRight(machine, 24) + padRight(lastSave || "unknown", 28) + `${own.length}${marker}`);
+    }
+    if (current && machines.includes(current)) {
+      console.log(chalk.dim("\n* = this machine"));
+    }
+  } catch (e) {
+    spinner.fail("Failed to list machines");
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+}
+
+/**
+ * `bwrss machine rename <old> <new>` — rename all items of a machine.
+ */
+export async function machineRenameCommand(from: string, to: string): Promise<void> {
+  const spinner = ora(`Renaming machine ${from} to ${to}...`).start();
+  try {
+    await prepareStorage();
+    const count = await renameMachine(from, to, spinner);
+    spinner.succeed(`Renamed machine ${from} to ${to} (${count} item(s))`);
+  } catch (e) {
+    spinner.fail(`Failed to rename machine ${from}`);
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+}
+
+/**
+ * `bwrss machine copy <from> <to>` — copy all items of a machine to another.
+ */
+export async function machineCopyCommand(from: string, to: string): Promise<void> {
+  const spinner = ora(`Copying machine ${from} to ${to}...`).start();
+  try {
+    await prepareStorage();
+    const count = await copyMachine(from, to, spinner);
+    spinner.succeed(`Copied machine ${from} to ${to} (${count} item(s))`);
+  } catch (e) {
+    spinner.fail(`Failed to copy machine ${from}`);
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+}
+
+/**
+ * `bwrss machine delete <name>` — delete all items of a machine, after confirmation.
+ */
+export async function machineDeleteCommand(name: string, options: { yes?: boolean }): Promise<void> {
+  if (!options.yes) {
+    if (!process.stdin.isTTY) {
+      log.error("Not running interactively: pass --yes to delete.");
+      process.exit(1);
+    }
+    const rl = createInterface({ input: process.stdin, output: process.stderr });
+    const answer = await rl.question(`Delete all items of machine ${name}? [y/N] `).finally(() => rl.close());
+    if (!/^y(es)?$/i.test(answer.trim())) return;
+  }
+
+  const spinner = ora(`Deleting machine ${name}...`).start();
+  try {
+    await prepareStorage();
+    const count = await deleteMachine(name, spinner);
+    spinner.succeed(`Deleted machine ${name} (${count} item(s))`);
+  } catch (e) {
+    spinner.fail(`Failed to delete machine ${name}`);
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str + " " : str + " ".repeat(len - str.length);
+}
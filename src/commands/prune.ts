@@ -0,0 +1,118 @@
+import { resolve } from "node:path";
+import { createInterface } from "node:readline/promises";
+import chalk from "chalk";
+import ora from "ora";
+import { findRepos, getCanonicalName, getPreviousNames } from "../core/repo.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
+import { homeConfigExists, readHomeConfig } from "../core/home.ts";
+import { readMachineConfig } from "../core/machine-config.ts";
+import { log } from "../util/logger.ts";
+import { prepareStorage, listStoredItems, deleteStoredItem, removeStoredFiles } from "../core/sync.ts";
+import { planPrune, type PruneAction } from "../core/prune.ts";
+import type { BwrssConfig } from "../types/index.ts";
+
+interface PruneOptions {
+  dryRun?: boolean;
+  /** Don't ask before each change */
+  yes?: boolean;
+  /** Machine items not saved for this many days are stale */
+  olderThan: number;
+}
+
+/**
+ * `bwrss prune <dirs...>` — remove vault items for repos not found under
+ * `dirs`, machine items not saved for a while, and payload files that are no
+ * longer managed. Asks before each change unless `yes`.
+ */
+export async function pruneCommand(dirs: string[], options: PruneOptions): Promise<void> {
+  const configs = new Map<string, BwrssConfig>();
+  for (const dir of dirs) {
+    for (const repoRoot of await findRepos(resolve(dir))) {
+      if (!(await configExists(repoRoot))) continue;
+      const config = await readConfig(repoRoot);
+      const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+      configs.set(canonicalName, config);
+      // Items under an alias or the legacy name are still restored from, so they count as local
+      for (const name of await getPreviousNames(repoRoot, config, canonicalName)) {
+        if (!configs.has(name)) configs.set(name, config);
+      }
+    }
+  }
+  if (await homeConfigExists()) {
+    configs.set("home", await readHomeConfig());
+  }
+
+  const spinner = ora("Listing bwrss items...").start();
+  let plan: PruneAction[];
+  try {
+    await prepareStorage();
+    plan = planPrune(await listStoredItems(), {
+      configs: new Map([...configs].map(([name, config]) => [name, config.files])),
+      cutoff: new Date(Date.now() - options.olderThan * 24 * 60 * 60 * 1000),
+      currentMachine: (await readMachineConfig()).machine,
+    });
+    spinner.stop();
+  } catch (e) {
+    spinner.fail("Failed to list bwrss items");
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+
+  if (plan.length === 0) {
+    log.success("Nothing to prune.");
+    return;
+  }
+
+  console.log(chalk.bold(`${options.dryRun ? "[dry-run] Would prune" : "Prune plan"}:`));
+  for (const action of plan) {
+    console.log(`  ${describeAction(action)}` + chalk.dim(` (${action.reason})`));
+  }
+  if (options.dryRun) return;
+  console.log();
+
+  if (!options.yes && !process.stdin.isTTY) {
+    log.error("Not running interactively: pass --yes to apply the plan, or --dry-run to only show it.");
+    process.exit(1);
+  }
+
+  const rl = options.yes ? undefined : createInterface({ input: process.stdin, output: process.stderr });
+  let done = 0;
+  try {
+    for (const action of plan) {
+      if (rl) {
+        const answer = await rl.question(`${describeAction(action)}? [y/N] `);
+        if (!/^y(es)?$/i.test(answer.trim())) continue;
+      }
+
+      const actionSpinner = ora(`${describeAction(action)}...`).start();
+      try {
+        if (action.files) {
+          const config = configs.get(action.item.name)!;
+          await removeStoredFiles(action.item.name, action.item.machine, action.files, actionSpinner, {
+            encryption: config.encryption,
+            target: itemTarget(config),
+            keyFields: config.keyFields,
+          });
+        } else {
+          await deleteStoredItem(action.item.id);
+        }
+        actionSpinner.succeed(describeAction(action, true));
+        done++;
+      } catch (e) {
+        actionSpinner.fail(`Failed: ${describeAction(action)}`);
+        log.error(e instanceof Error ? e.message : String(e));
+      }
+    }
+  } finally {
+    rl?.close();
+  }
+
+  log.info(`Pruned ${done} of ${plan.length} item(s).`);
+}
+
+function describeAction(action: PruneAction, past = false): string {
+  if (action.files) {
+    return `${past ? "Dropped" : "Drop"} ${action.files.join(", ")} from ${action.item.item}`;
+  }
+  return `${past ? "Deleted" : "Delete"} ${action.item.item}`;
+}
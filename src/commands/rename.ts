@@ -0,0 +1,41 @@
+import { resolve } from "node:path";
+import ora from "ora";
+import { findRepoRoot, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists } from "../core/config.ts";
+import { log } from "../util/logger.ts";
+import { prepareStorage, renameStoredRepo } from "../core/sync.ts";
+
+/**
+ * `bwrss rename --from <old>` — move the items stored under a repo's previous
+ * name (shared and every machine's) to its current name, e.g. after the repo
+ * was renamed or transferred.
+ */
+export async function renameCommand(dir: string, options: { from: string }): Promise<void> {
+  const repoRoot = await findRepoRoot(resolve(dir));
+  if (!repoRoot || !(await configExists(repoRoot))) {
+    log.error(`No .bwrss config found for ${resolve(dir)}`);
+    process.exit(1);
+  }
+
+  const config = await readConfig(repoRoot);
+  const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+  if (options.from === canonicalName) {
+    log.error(`${canonicalName} is already this repo's name.`);
+    process.exit(1);
+  }
+
+  const spinner = ora(`Moving bwrss:${options.from} to bwrss:${canonicalName}...`).start();
+  try {
+    await prepareStorage();
+    const count = await renameStoredRepo(options.from, canonicalName, spinner);
+    spinner.succeed(`Moved ${count} item(s) from bwrss:${options.from} to bwrss:${canonicalName}`);
+  } catch (e) {
+    spinner.fail(`Failed to move bwrss:${options.from}`);
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+
+  if (config.aliases?.includes(options.from)) {
+    log.dim(`You can now remove ${options.from} from 'aliases' in .bwrss.`);
+  }
+}
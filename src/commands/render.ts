@@ -0,0 +1,80 @@
+import { resolve } from "node:path";
+import chalk from "chalk";
+import ora from "ora";
+import { findRepos, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
+import { log } from "../util/logger.ts";
+import { getMachineName } from "../core/machine.ts";
+import { prepareStorage, fetchMergedPayloads, resolveStoredName } from "../core/sync.ts";
+import { renderTemplateFile } from "../core/template.ts";
+
+/**
+ * `bwrss render` — write the files that have a `template` from the template,
+ * the saved values and the referenced vault items. Overwrites existing files.
+ */
+export async function renderCommand(dirs: string[], options: { dryRun?: boolean }): Promise<void> {
+  const repoRoots: string[] = [];
+  for (const dir of dirs) {
+    const found = await findRepos(resolve(dir));
+    repoRoots.push(...found);
+  }
+
+  if (repoRoots.length === 0) {
+    log.warn("No git repositories found.");
+    return;
+  }
+
+  for (const repoRoot of repoRoots) {
+    if (!(await configExists(repoRoot))) {
+      log.dim(`Skipping ${repoRoot} (no .bwrss config)`);
+      continue;
+    }
+
+    const config = await readConfig(repoRoot);
+    const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+    const templated = config.files.filter((f) => f.template);
+    if (templated.length === 0) {
+      log.dim(`Skipping ${canonicalName} (no templates)`);
+      continue;
+    }
+
+    if (options.dryRun) {
+      console.log(chalk.bold(`[dry-run] Would render for bwrss:${canonicalName}:`));
+      for (const managedFile of templated) {
+        console.log(chalk.cyan(`  ${managedFile.path}`) + chalk.dim(` (from ${managedFile.template})`));
+      }
+      continue;
+    }
+
+    let machineName: string | undefined;
+    if (templated.some((f) => f.machine)) {
+      machineName = await getMachineName();
+    }
+
+    const spinner = ora(`Rendering templates for ${canonicalName}...`).start();
+
+    try {
+      await prepareStorage();
+      const storedName = await resolveStoredName(repoRoot, config, canonicalName, machineName);
+      const payloads = await fetchMergedPayloads(storedName, machineName, {
+        encryption: config.encryption,
+        target: itemTarget(config),
+      }) ?? [];
+      spinner.stop();
+
+      for (const managedFile of templated) {
+        const payload = payloads.find((p) => p.path === managedFile.path);
+        await renderTemplateFile(
+          resolve(repoRoot, managedFile.template!),
+          resolve(repoRoot, managedFile.path),
+          managedFile.template!,
+          payload,
+        );
+        log.success(`Rendered ${managedFile.path} from ${managedFile.template}`);
+      }
+    } catch (e) {
+      spinner.fail(`Failed to render templates for ${canonicalName}`);
+      log.error(e instanceof Error ? e.message : String(e));
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import type { Ora } from "ora";
+import { createLocalBackend, setBackend } from "../backends/index.ts";
+import { writeConfig } from "../core/config.ts";
+import { writeState } from "../core/state.ts";
+import { uploadPayload, fetchPayload } from "../core/sync.ts";
+import { restoreCommand } from "./restore.ts";
+import { saveCommand } from "./save.ts";
+
+const spinner = { text: "" } as Ora;
+
+let dir: string;
+let repo: string;
+const originalHome = process.env.HOME;
+
+beforeEach(async () => {
+  dir = await mkdtemp(resolve(tmpdir(), "bwrss-restore-"));
+  process.env.HOME = dir;
+  setBackend(createLocalBackend(resolve(dir, "store"), "test"));
+  repo = resolve(dir, "app");
+  await mkdir(resolve(repo, ".git"), { recursive: true });
+  await writeConfig(repo, { version: 1, name: "app", files: [{ path: ".env" }, { path: "key.pem" }] });
+});
+
+afterEach(async () => {
+  setBackend(undefined);
+  process.env.HOME = originalHome;
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** Items saved from another machine, never seen on this one */
+async function savedElsewhere(): Promise<void> {
+  await uploadPayload("app", [{ path: ".env", content: "A=1\n" }, { path: "key.pem", content: "pem" }], spinner);
+  await writeState({ version: 1, items: {} });
+}
+
+describe("restoreCommand", () => {
+  test("counts existing identical files as restored, so the next save goes through", async () => {
+    await savedElsewhere();
+    await writeFile(resolve(repo, ".env"), "A=1\n");
+    await writeFile(resolve(repo, "key.pem"), "pem");
+
+    await restoreCommand([repo], {});
+    await writeFile(resolve(repo, ".env"), "A=2\n");
+    await saveCommand([repo], {});
+
+    expect((await fetchPayload("app"))?.map((f) => f.content)).toEqual(["A=2\n", "pem"]);
+  });
+
+  test("doesn't mark the item as seen while an existing file differs", async () => {
+    await savedElsewhere();
+    await writeFile(resolve(repo, ".env"), "A=local\n");
+    await writeFile(resolve(repo, "key.pem"), "pem");
+
+    await restoreCommand([repo], {});
+    await saveCommand([repo], {});
+
+    expect((await fetchPayload("app"))?.map((f) => f.content)).toEqual(["A=1\n", "pem"]);
+  });
+});
@@ -1,18 +1,27 @@
 import { resolve } from "node:path";
 import { readFile, writeFile, access } from "node:fs/promises";
 import chalk from "chalk";
-import ora from "ora";
 import { findRepos, getCanonicalName } from "../core/repo.ts";
-import { readConfig, configExists } from "../core/config.ts";
-import { ensureUnlocked, sync } from "../core/bitwarden.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
 import { getParser } from "../parsers/index.ts";
 import { log } from "../util/logger.ts";
-import { setFileMode, modeToString } from "../util/permissions.ts";
-import { getMachineName } from "../core/machine.ts";
-import { mergePayloads, fetchPayload, fetchMachinePayload } from "../core/sync.ts";
+import { setFileMode, modeToString, SECRET_FILE_MODE } from "../util/permissions.ts";
+import { prepareStorage, mergePayloads, fetchPayload, fetchMachinePayload, resolvePointInTime, resolveStoredName, recordFetched, type FetchedGeneration } from "../core/sync.ts";
+import { isReferenceOnly, resolveReferences } from "../core/references.ts";
+import { renderTemplateFile } from "../core/template.ts";
+import { fileMatchesPayload } from "../core/files.ts";
+import { runRepos, type RepoOutcome, type RepoTask } from "../core/batch.ts";
 import type { FilePayload } from "../types/index.ts";
 
-export async function restoreCommand(dirs: string[], options: { dryRun?: boolean; force?: boolean }): Promise<void> {
+interface RestoreOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  at?: string;
+  /** Restore up to this many repos in parallel and print a summary */
+  jobs?: number;
+}
+
+export async function restoreCommand(dirs: string[], options: RestoreOptions): Promise<void> {
   const repoRoots: string[] = [];
   for (const dir of dirs) {
     const found = await findRepos(resolve(dir));
@@ -24,139 +33,237 @@ export async function restoreCommand(dirs: string[], options: { dryRun?: boolean
     return;
   }
 
-  for (const repoRoot of repoRoots) {
-    if (!(await configExists(repoRoot))) {
-      log.dim(`Skipping ${repoRoot} (no .bwrss config)`);
-      continue;
+  await runRepos(repoRoots, { jobs: options.jobs, action: "Restoring", filesVerb: "restored" }, (repoRoot, task) => restoreRepo(repoRoot, options, task));
+}
+
+/**
+ * Restore one repo's managed files.
+ */
+async function restoreRepo(repoRoot: string, options: RestoreOptions, task: RepoTask): Promise<RepoOutcome> {
+  const { log } = task;
+
+  if (!(await configExists(repoRoot))) {
+    log.dim(`Skipping ${repoRoot} (no .bwrss config)`);
+    return { status: "skipped", reason: "no .bwrss config" };
+  }
+
+  const config = await readConfig(repoRoot);
+  const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+  const noteName = `bwrss:${canonicalName}`;
+
+  // Check if any files are machine-specific
+  const hasMachineFiles = config.files.some((f) => f.machine);
+  let machineName: string | undefined;
+  if (hasMachineFiles) {
+    machineName = await task.machineName();
+  }
+
+  if (options.dryRun) {
+    log.print(chalk.bold(`[dry-run] Would restore from ${noteName}`));
+    if (machineName) {
+      log.print(chalk.bold(`[dry-run] Would also restore from ${noteName}@${machineName}`));
     }
+  }
+
+  const spinner = task.spinner(`Restoring secrets for ${canonicalName}...`);
+  const written = new Set<string>();
+  // Fetched files left differing from the vault
+  const skipped = new Set<string>();
+  const fetched: FetchedGeneration[] = [];
 
-    const config = await readConfig(repoRoot);
-    const canonicalName = config.name ?? await getCanonicalName(repoRoot);
-    const noteName = `bwrss:${canonicalName}`;
+  try {
+    await prepareStorage();
 
-    // Check if any files are machine-specific
-    const hasMachineFiles = config.files.some((f) => f.machine);
-    let machineName: string | undefined;
-    if (hasMachineFiles) {
-      machineName = await getMachineName();
+    // Fall back to a previous name if the repo was renamed or moved, or was
+    // saved under the name earlier versions derived from its remote
+    const storedName = await resolveStoredName(repoRoot, config, canonicalName, machineName);
+
+    // Resolve --at to a point in time to restore from history
+    let at: string | undefined;
+    if (options.at) {
+      at = await resolvePointInTime(storedName, machineName, options.at, itemTarget(config));
     }
 
-    if (options.dryRun) {
-      console.log(chalk.bold(`[dry-run] Would restore from ${noteName}`));
-      if (machineName) {
-        console.log(chalk.bold(`[dry-run] Would also restore from ${noteName}@${machineName}`));
-      }
+    // Fetch shared payloads
+    spinner.text = "Downloading shared secrets...";
+    const sharedPayloads = await fetchPayload(storedName, { at, fetched, encryption: config.encryption, target: itemTarget(config) });
+
+    // Fetch machine-specific payloads if needed
+    let machinePayloads: FilePayload[] | null = null;
+    if (machineName) {
+      spinner.text = `Downloading machine secrets for ${machineName}...`;
+      machinePayloads = await fetchMachinePayload(storedName, machineName, {
+        at,
+        fetched,
+        encryption: config.encryption,
+        target: itemTarget(config),
+      });
     }
 
-    const spinner = ora(`Restoring secrets for ${canonicalName}...`).start();
+    if (!sharedPayloads && !machinePayloads && !config.files.some((f) => isReferenceOnly(f) || f.template)) {
+      const reason = at ? `No Bitwarden data found for ${noteName} as of ${at}` : `No Bitwarden data found for ${noteName}`;
+      spinner.fail(reason);
+      return { status: "failed", name: canonicalName, reason };
+    }
 
-    try {
-      await ensureUnlocked();
-      await sync();
+    // Merge shared + machine payloads
+    const allPayloads = mergePayloads(sharedPayloads ?? [], machinePayloads ?? []);
 
-      // Fetch shared payloads
-      spinner.text = "Downloading shared secrets...";
-      const sharedPayloads = await fetchPayload(canonicalName);
+    spinner.stop();
+    if (storedName !== canonicalName) {
+      log.warn(`Nothing stored as ${noteName}; restoring from its previous name bwrss:${storedName}. Run 'bwrss rename --from ${storedName}' to move it.`);
+    }
 
-      // Fetch machine-specific payloads if needed
-      let machinePayloads: FilePayload[] | null = null;
-      if (machineName) {
-        spinner.text = `Downloading machine secrets for ${machineName}...`;
-        machinePayloads = await fetchMachinePayload(canonicalName, machineName);
-      }
+    // Build a map of config file paths to their key patterns
+    const configFileMap = new Map(config.files.map((f) => [f.path, f.keys]));
 
-      if (!sharedPayloads && !machinePayloads) {
-        spinner.fail(`No Bitwarden data found for ${noteName}`);
+    for (const filePayload of allPayloads) {
+      // Only restore files listed in the local config
+      if (!configFileMap.has(filePayload.path)) {
+        log.dim(`Skipping ${filePayload.path} (not in local .bwrss config)`);
         continue;
       }
+      const managedFile = config.files.find((f) => f.path === filePayload.path)!;
+      // Rendered from templates below
+      if (managedFile.template) continue;
 
-      // Merge shared + machine payloads
-      const allPayloads = mergePayloads(sharedPayloads ?? [], machinePayloads ?? []);
-
-      spinner.stop();
-
-      // Build a map of config file paths to their key patterns
-      const configFileMap = new Map(config.files.map((f) => [f.path, f.keys]));
+      const filePath = resolve(repoRoot, filePayload.path);
+      const fileExists = await access(filePath).then(() => true, () => false);
 
-      for (const filePayload of allPayloads) {
-        // Only restore files listed in the local config
-        if (!configFileMap.has(filePayload.path)) {
-          log.dim(`Skipping ${filePayload.path} (not in local .bwrss config)`);
-          continue;
-        }
-
-        const filePath = resolve(repoRoot, filePayload.path);
-        const fileExists = await access(filePath).then(() => true, () => false);
-
-        if (filePayload.content !== undefined) {
-          // Full file restore
-          if (fileExists && !options.force) {
-            if (options.dryRun) {
-              console.log(chalk.yellow(`  ${filePayload.path}`) + chalk.dim(" (exists, would skip without --force)"));
-              continue;
-            }
-            log.warn(`${filePayload.path} exists, skipping (use --force to overwrite).`);
+      if (filePayload.content !== undefined) {
+        // Full file restore
+        if (fileExists && !options.force) {
+          if (await fileMatchesPayload(filePath, managedFile, filePayload)) {
+            log.dim(`${filePayload.path} is up to date.`);
             continue;
           }
-
           if (options.dryRun) {
-            const encPart = filePayload.encoding === "base64" ? " [binary]" : "";
-            const modePart = filePayload.mode !== undefined ? ` ${modeToString(filePayload.mode)}` : "";
-            const size = filePayload.encoding === "base64"
-              ? Math.ceil(filePayload.content.length * 3 / 4)
-              : filePayload.content.length;
-            console.log(chalk.cyan(`  ${filePayload.path}`) + chalk.dim(`${modePart}${encPart} (full file, ${size} bytes)`));
+            log.print(chalk.yellow(`  ${filePayload.path}`) + chalk.dim(" (exists, would skip without --force)"));
             continue;
           }
+          log.warn(`${filePayload.path} exists, skipping (use --force to overwrite).`);
+          skipped.add(filePayload.path);
+          continue;
+        }
 
-          // Decode content
-          const buf = filePayload.encoding === "base64"
-            ? Buffer.from(filePayload.content, "base64")
-            : Buffer.from(filePayload.content, "utf-8");
+        if (options.dryRun) {
+          const encPart = filePayload.encoding === "base64" ? " [binary]" : "";
+          const modePart = filePayload.mode !== undefined ? ` ${modeToString(filePayload.mode)}` : "";
+          const size = filePayload.encoding === "base64"
+            ? Math.ceil(filePayload.content.length * 3 / 4)
+            : filePayload.content.length;
+          log.print(chalk.cyan(`  ${filePayload.path}`) + chalk.dim(`${modePart}${encPart} (full file, ${size} bytes)`));
+          continue;
+        }
 
-          await writeFile(filePath, buf);
+        // Decode content
+        const buf = filePayload.encoding === "base64"
+          ? Buffer.from(filePayload.content, "base64")
+          : Buffer.from(filePayload.content, "utf-8");
 
-          // Restore file permissions if present
-          if (filePayload.mode !== undefined) {
-            await setFileMode(filePath, filePayload.mode);
-          }
+        await writeFile(filePath, buf);
 
-          log.success(`Restored ${filePayload.path}` + (filePayload.mode !== undefined ? ` (${modeToString(filePayload.mode)})` : ""));
-        } else if (filePayload.keys) {
-          // Partial key merge
-          const parser = getParser(filePayload.path);
-          if (!parser) {
-            log.warn(`No parser for ${filePayload.path}, skipping partial restore.`);
-            continue;
-          }
+        // Restore file permissions if present
+        if (filePayload.mode !== undefined) {
+          await setFileMode(filePath, filePayload.mode);
+        }
 
-          if (options.dryRun) {
-            console.log(chalk.cyan(`  ${filePayload.path}`) + chalk.dim(` (${Object.keys(filePayload.keys).length} keys to merge)`));
-            for (const key of Object.keys(filePayload.keys)) {
-              console.log(chalk.dim(`    - ${key}`));
-            }
-            continue;
-          }
+        log.success(`Restored ${filePayload.path}` + (filePayload.mode !== undefined ? ` (${modeToString(filePayload.mode)})` : ""));
+        written.add(filePayload.path);
+      } else if (filePayload.keys) {
+        // Partial key merge
+        const parser = getParser(filePayload.path);
+        if (!parser) {
+          log.warn(`No parser for ${filePayload.path}, skipping partial restore.`);
+          skipped.add(filePayload.path);
+          continue;
+        }
 
-          let existingContent = "";
-          if (fileExists) {
-            existingContent = await readFile(filePath, "utf-8");
+        if (options.dryRun) {
+          log.print(chalk.cyan(`  ${filePayload.path}`) + chalk.dim(` (${Object.keys(filePayload.keys).length} keys to merge)`));
+          for (const key of Object.keys(filePayload.keys)) {
+            log.print(chalk.dim(`    - ${key}`));
           }
+          continue;
+        }
 
-          const merged = parser.merge(existingContent, filePayload.keys);
-          await writeFile(filePath, merged, "utf-8");
+        let existingContent = "";
+        if (fileExists) {
+          existingContent = await readFile(filePath, "utf-8");
+        }
 
-          // Restore file permissions if present
-          if (filePayload.mode !== undefined) {
-            await setFileMode(filePath, filePayload.mode);
-          }
+        const merged = parser.merge(existingContent, filePayload.keys);
+        await writeFile(filePath, merged, "utf-8");
+
+        // Restore file permissions if present
+        if (filePayload.mode !== undefined) {
+          await setFileMode(filePath, filePayload.mode);
+        }
+
+        log.success(`Merged ${Object.keys(filePayload.keys).length} keys into ${filePayload.path}`);
+        written.add(filePayload.path);
+      }
+    }
 
-          log.success(`Merged ${Object.keys(filePayload.keys).length} keys into ${filePayload.path}`);
+    // Render files from their templates with the saved values
+    for (const managedFile of config.files) {
+      if (!managedFile.template) continue;
+      const filePath = resolve(repoRoot, managedFile.path);
+      const fileExists = await access(filePath).then(() => true, () => false);
+      const payload = allPayloads.find((p) => p.path === managedFile.path);
+      const templatePath = resolve(repoRoot, managedFile.template);
+
+      if (fileExists && !options.force) {
+        if (payload && await fileMatchesPayload(filePath, managedFile, payload, templatePath)) {
+          log.dim(`${managedFile.path} is up to date.`);
+        } else if (options.dryRun) {
+          log.print(chalk.yellow(`  ${managedFile.path}`) + chalk.dim(" (exists, would skip without --force)"));
+        } else {
+          log.warn(`${managedFile.path} exists, skipping (use --force to overwrite, or run 'bwrss render').`);
+          skipped.add(managedFile.path);
         }
+        continue;
+      }
+      if (options.dryRun) {
+        log.print(chalk.cyan(`  ${managedFile.path}`) + chalk.dim(` (rendered from ${managedFile.template})`));
+        continue;
       }
-    } catch (e) {
-      spinner.fail(`Failed to restore secrets for ${canonicalName}`);
-      log.error(e instanceof Error ? e.message : String(e));
+
+      await renderTemplateFile(templatePath, filePath, managedFile.template, payload);
+      log.success(`Rendered ${managedFile.path} from ${managedFile.template}`);
+      written.add(managedFile.path);
     }
+
+    // Fill keys referenced from existing Bitwarden items (read-only, never saved)
+    for (const managedFile of config.files) {
+      if (!managedFile.refs) continue;
+      const refs = Object.entries(managedFile.refs);
+
+      if (options.dryRun) {
+        log.print(chalk.cyan(`  ${managedFile.path}`) + chalk.dim(` (${refs.length} referenced keys)`));
+        for (const [key, ref] of refs) {
+          log.print(chalk.dim(`    - ${key} ← ${ref}`));
+        }
+        continue;
+      }
+
+      const values = await resolveReferences(managedFile.refs);
+      const filePath = resolve(repoRoot, managedFile.path);
+      const existingContent = await readFile(filePath, "utf-8").catch(() => "");
+      // A new file is created private; an existing one keeps its mode
+      await writeFile(filePath, getParser(managedFile.path)!.merge(existingContent, values), { encoding: "utf-8", mode: SECRET_FILE_MODE });
+      log.success(`Filled ${refs.length} referenced keys in ${managedFile.path}`);
+      written.add(managedFile.path);
+    }
+
+    if (!options.dryRun) {
+      await recordFetched(fetched, skipped);
+    }
+
+    return { status: "done", name: canonicalName, files: written.size };
+  } catch (e) {
+    spinner.fail(`Failed to restore secrets for ${canonicalName}`);
+    log.error(e instanceof Error ? e.message : String(e));
+    return { status: "failed", name: canonicalName, reason: e instanceof Error ? e.message : String(e) };
   }
 }
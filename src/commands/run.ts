@@ -0,0 +1,87 @@
+import { resolve } from "node:path";
+import { spawn } from "node:child_process";
+import chalk from "chalk";
+import ora from "ora";
+import { findRepoRoot, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
+import { log } from "../util/logger.ts";
+import { getMachineName } from "../core/machine.ts";
+import { prepareStorage, fetchMergedPayloads, resolveStoredName } from "../core/sync.ts";
+import { collectVariables } from "../core/env.ts";
+
+/** Signals passed on to the child process */
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP", "SIGQUIT"];
+
+/**
+ * `bwrss run -- <command>` — run a command with the repo's secrets as
+ * environment variables, without writing any file. Exits with the command's
+ * exit code. Messages go to stderr so the command's stdout stays clean.
+ */
+export async function runCommand(command: string[], options: { dir?: string; file?: string[] }): Promise<void> {
+  const [executable, ...args] = command;
+  if (!executable) {
+    log.error("No command given. Usage: bwrss run [--dir <dir>] -- <command> [args...]");
+    process.exit(1);
+  }
+
+  const repoRoot = await findRepoRoot(resolve(options.dir ?? "."));
+  if (!repoRoot || !(await configExists(repoRoot))) {
+    log.error(`No .bwrss config found for ${resolve(options.dir ?? ".")}`);
+    process.exit(1);
+  }
+
+  const config = await readConfig(repoRoot);
+  const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+  const unknown = (options.file ?? []).filter((path) => !config.files.some((f) => f.path === path));
+  if (unknown.length > 0) {
+    log.error(`Not managed in .bwrss: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+  const files = options.file ? config.files.filter((f) => options.file!.includes(f.path)) : config.files;
+
+  let machineName: string | undefined;
+  if (files.some((f) => f.machine)) {
+    machineName = await getMachineName();
+  }
+
+  const spinner = ora(`Fetching secrets for ${canonicalName}...`).start();
+  let env: Record<string, string>;
+
+  try {
+    await prepareStorage();
+    const storedName = await resolveStoredName(repoRoot, config, canonicalName, machineName);
+    const payloads = await fetchMergedPayloads(storedName, machineName, {
+      encryption: config.encryption,
+      target: itemTarget(config),
+    }) ?? [];
+    spinner.stop();
+
+    const collected = await collectVariables(files, payloads);
+    for (const path of collected.skipped) {
+      console.error(chalk.dim(`Skipping ${path} (no key-value format)`));
+    }
+    env = collected.variables;
+  } catch (e) {
+    spinner.fail(`Failed to fetch secrets for ${canonicalName}`);
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+
+  const child = spawn(executable, args, { stdio: "inherit", env: { ...process.env, ...env } });
+  const forward = (signal: NodeJS.Signals) => child.kill(signal);
+  for (const signal of FORWARDED_SIGNALS) process.on(signal, forward);
+
+  child.on("error", (e) => {
+    log.error(`Cannot run ${executable}: ${e.message}`);
+    process.exit(127);
+  });
+  child.on("exit", (code, signal) => {
+    for (const s of FORWARDED_SIGNALS) process.off(s, forward);
+    if (signal) {
+      // Die the same way the child did
+      process.kill(process.pid, signal);
+      return;
+    }
+    process.exit(code ?? 1);
+  });
+}
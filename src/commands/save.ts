@@ -1,30 +1,26 @@
 import { resolve } from "node:path";
-import { readFile, access } from "node:fs/promises";
+import { access } from "node:fs/promises";
 import chalk from "chalk";
-import ora from "ora";
 import { findRepos, getCanonicalName } from "../core/repo.ts";
-import { readConfig, configExists } from "../core/config.ts";
-import { ensureUnlocked, sync } from "../core/bitwarden.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
 import { getParser } from "../parsers/index.ts";
-import { log } from "../util/logger.ts";
-import { getFileMode, modeToString } from "../util/permissions.ts";
-import { getMachineName } from "../core/machine.ts";
-import { splitByMachine, uploadPayload, uploadMachinePayload } from "../core/sync.ts";
+import { log, type Logger } from "../util/logger.ts";
+import { modeToString } from "../util/permissions.ts";
+import { readFilePayload } from "../core/files.ts";
+import { isReferenceOnly } from "../core/references.ts";
+import { prepareStorage, splitByMachine, uploadPayload, uploadMachinePayload, adoptStoredName, type UploadOptions } from "../core/sync.ts";
+import { runRepos, type RepoOutcome, type RepoTask } from "../core/batch.ts";
 import type { FilePayload } from "../types/index.ts";
 
-/**
- * Detect whether a buffer contains binary (non-text) content.
- */
-function isBinary(buf: Buffer): boolean {
-  // Check for null bytes in the first 8KB — a simple heuristic
-  const len = Math.min(buf.length, 8192);
-  for (let i = 0; i < len; i++) {
-    if (buf[i] === 0) return true;
-  }
-  return false;
+interface SaveOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  merge?: boolean;
+  /** Save up to this many repos in parallel and print a summary */
+  jobs?: number;
 }
 
-export async function saveCommand(dirs: string[], options: { dryRun?: boolean }): Promise<void> {
+export async function saveCommand(dirs: string[], options: SaveOptions): Promise<void> {
   const repoRoots: string[] = [];
   for (const dir of dirs) {
     const found = await findRepos(resolve(dir));
@@ -36,124 +32,117 @@ export async function saveCommand(dirs: string[], options: { dryRun?: boolean })
     return;
   }
 
-  for (const repoRoot of repoRoots) {
-    if (!(await configExists(repoRoot))) {
-      log.dim(`Skipping ${repoRoot} (no .bwrss config)`);
-      continue;
-    }
+  await runRepos(repoRoots, { jobs: options.jobs, action: "Saving", filesVerb: "saved" }, (repoRoot, task) => saveRepo(repoRoot, options, task));
+}
 
-    const config = await readConfig(repoRoot);
-    const canonicalName = config.name ?? await getCanonicalName(repoRoot);
-    const noteName = `bwrss:${canonicalName}`;
+/**
+ * Save one repo's managed files.
+ */
+async function saveRepo(repoRoot: string, options: SaveOptions, task: RepoTask): Promise<RepoOutcome> {
+  const { log } = task;
 
-    // Check if any files are machine-specific
-    const hasMachineFiles = config.files.some((f) => f.machine);
-    let machineName: string | undefined;
-    if (hasMachineFiles && !options.dryRun) {
-      machineName = await getMachineName();
-    }
+  if (!(await configExists(repoRoot))) {
+    log.dim(`Skipping ${repoRoot} (no .bwrss config)`);
+    return { status: "skipped", reason: "no .bwrss config" };
+  }
 
-    // Read and process files
-    const filePayloads: FilePayload[] = [];
+  const config = await readConfig(repoRoot);
+  const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+  const noteName = `bwrss:${canonicalName}`;
 
-    for (const managedFile of config.files) {
-      const filePath = resolve(repoRoot, managedFile.path);
+  // Check if any files are machine-specific
+  const hasMachineFiles = config.files.some((f) => f.machine);
+  let machineName: string | undefined;
+  if (hasMachineFiles && !options.dryRun) {
+    machineName = await task.machineName();
+  }
 
-      if (!(await access(filePath).then(() => true, () => false))) {
-        log.warn(`File not found: ${managedFile.path}, skipping.`);
-        continue;
-      }
+  // Read and process files
+  const filePayloads: FilePayload[] = [];
 
-      // Capture file permissions
-      const mode = await getFileMode(filePath);
-
-      // Read as buffer to detect binary content
-      const buf = Buffer.from(await readFile(filePath));
-      const binary = isBinary(buf);
-
-      if (managedFile.keys && managedFile.keys.length > 0) {
-        // Partial: extract only specified keys (not applicable to binary files)
-        const parser = getParser(managedFile.path);
-        if (!parser) {
-          log.warn(`No parser for ${managedFile.path}, saving as full file.`);
-          const content = binary ? buf.toString("base64") : buf.toString("utf-8");
-          filePayloads.push({
-            path: managedFile.path,
-            content,
-            mode,
-            ...(binary ? { encoding: "base64" as const } : {}),
-          });
-          continue;
-        }
-        const content = buf.toString("utf-8");
-        const extracted = parser.extract(content, managedFile.keys);
-        if (Object.keys(extracted).length === 0) {
-          log.warn(`No matching keys found in ${managedFile.path}.`);
-        }
-        filePayloads.push({ path: managedFile.path, keys: extracted, mode });
-      } else {
-        // Full file
-        const content = binary ? buf.toString("base64") : buf.toString("utf-8");
-        filePayloads.push({
-          path: managedFile.path,
-          content,
-          mode,
-          ...(binary ? { encoding: "base64" as const } : {}),
-        });
-      }
-    }
+  for (const managedFile of config.files) {
+    if (isReferenceOnly(managedFile)) continue;
+    const filePath = resolve(repoRoot, managedFile.path);
 
-    if (filePayloads.length === 0) {
-      log.warn(`No files to save for ${canonicalName}.`);
+    if (!(await access(filePath).then(() => true, () => false))) {
+      log.warn(`File not found: ${managedFile.path}, skipping.`);
       continue;
     }
 
-    // Split into shared and machine-specific
-    const { shared, machine } = splitByMachine(config, filePayloads);
+    if (managedFile.keys && managedFile.keys.length > 0 && !getParser(managedFile.path)) {
+      log.warn(`No parser for ${managedFile.path}, saving as full file.`);
+    }
 
-    if (options.dryRun) {
-      console.log();
-      if (shared.length > 0) {
-        console.log(chalk.bold(`[dry-run] Would save to ${noteName}:`));
-        printPayloadSummary(shared);
-      }
-      if (machine.length > 0) {
-        const machineLabel = machineName ?? "<machine>";
-        console.log(chalk.bold(`[dry-run] Would save to ${noteName}@${machineLabel}:`));
-        printPayloadSummary(machine);
-      }
-      console.log();
-      continue;
+    const templatePath = managedFile.template && resolve(repoRoot, managedFile.template);
+    const filePayload = await readFilePayload(filePath, managedFile, templatePath);
+    if (filePayload.keys && Object.keys(filePayload.keys).length === 0 && !managedFile.template) {
+      log.warn(`No matching keys found in ${managedFile.path}.`);
     }
+    filePayloads.push(filePayload);
+  }
 
-    // Bitwarden operations
-    const spinner = ora(`Saving secrets for ${canonicalName}...`).start();
+  if (filePayloads.length === 0) {
+    log.warn(`No files to save for ${canonicalName}.`);
+    return { status: "skipped", name: canonicalName, reason: "no files to save" };
+  }
 
-    try {
-      await ensureUnlocked();
-      await sync();
+  // Split into shared and machine-specific
+  const { shared, machine } = splitByMachine(config, filePayloads);
 
-      if (shared.length > 0) {
-        await uploadPayload(noteName, canonicalName, shared, spinner);
-      }
+  if (options.dryRun) {
+    log.print();
+    if (shared.length > 0) {
+      log.print(chalk.bold(`[dry-run] Would save to ${noteName}:`));
+      printPayloadSummary(log, shared);
+    }
+    if (machine.length > 0) {
+      const machineLabel = machineName ?? "<machine>";
+      log.print(chalk.bold(`[dry-run] Would save to ${noteName}@${machineLabel}:`));
+      printPayloadSummary(log, machine);
+    }
+    log.print();
+    return { status: "done", name: canonicalName, files: 0 };
+  }
 
-      if (machine.length > 0 && machineName) {
-        await uploadMachinePayload(canonicalName, machineName, machine, spinner);
-      }
+  // Bitwarden operations
+  const spinner = task.spinner(`Saving secrets for ${canonicalName}...`);
+
+  try {
+    await prepareStorage();
+    const previousName = await adoptStoredName(repoRoot, config, canonicalName, machineName, spinner);
+    const uploadOptions: UploadOptions = {
+      force: options.force,
+      merge: options.merge,
+      encryption: config.encryption,
+      target: itemTarget(config),
+      keyFields: config.keyFields,
+    };
+
+    if (shared.length > 0) {
+      await uploadPayload(canonicalName, shared, spinner, uploadOptions);
+    }
+
+    if (machine.length > 0 && machineName) {
+      await uploadMachinePayload(canonicalName, machineName, machine, spinner, uploadOptions);
+    }
 
-      const totalFiles = shared.length + machine.length;
-      const parts: string[] = [];
-      if (shared.length > 0) parts.push(`${shared.length} shared`);
-      if (machine.length > 0) parts.push(`${machine.length} machine-specific`);
-      spinner.succeed(`Saved ${totalFiles} file(s) (${parts.join(", ")}) for ${canonicalName}`);
-    } catch (e) {
-      spinner.fail(`Failed to save secrets for ${canonicalName}`);
-      log.error(e instanceof Error ? e.message : String(e));
+    const totalFiles = shared.length + machine.length;
+    const parts: string[] = [];
+    if (shared.length > 0) parts.push(`${shared.length} shared`);
+    if (machine.length > 0) parts.push(`${machine.length} machine-specific`);
+    spinner.succeed(`Saved ${totalFiles} file(s) (${parts.join(", ")}) for ${canonicalName}`);
+    if (previousName) {
+      log.warn(`Moved the items stored as bwrss:${previousName} to ${noteName}.`);
     }
+    return { status: "done", name: canonicalName, files: totalFiles };
+  } catch (e) {
+    spinner.fail(`Failed to save secrets for ${canonicalName}`);
+    log.error(e instanceof Error ? e.message : String(e));
+    return { status: "failed", name: canonicalName, reason: e instanceof Error ? e.message : String(e) };
   }
 }
 
-function printPayloadSummary(payloads: FilePayload[]): void {
+function printPayloadSummary(log: Logger, payloads: FilePayload[]): void {
   for (const fp of payloads) {
     const modePart = fp.mode !== undefined ? ` ${modeToString(fp.mode)}` : "";
     const encPart = fp.encoding === "base64" ? " [binary]" : "";
@@ -161,11 +150,11 @@ function printPayloadSummary(payloads: FilePayload[]): void {
       const size = fp.encoding === "base64"
         ? Math.ceil(fp.content.length * 3 / 4) // approximate decoded size
         : fp.content.length;
-      console.log(chalk.cyan(`  ${fp.path}`) + chalk.dim(`${modePart}${encPart} (full file, ${size} bytes)`));
+      log.print(chalk.cyan(`  ${fp.path}`) + chalk.dim(`${modePart}${encPart} (full file, ${size} bytes)`));
     } else if (fp.keys) {
-      console.log(chalk.cyan(`  ${fp.path}`) + chalk.dim(`${modePart} (${Object.keys(fp.keys).length} keys)`));
+      log.print(chalk.cyan(`  ${fp.path}`) + chalk.dim(`${modePart} (${Object.keys(fp.keys).length} keys)`));
       for (const key of Object.keys(fp.keys)) {
-        console.log(chalk.dim(`    - ${key}`));
+        log.print(chalk.dim(`    - ${key}`));
       }
     }
   }
@@ -0,0 +1,91 @@
+import { resolve } from "node:path";
+import { readFile, writeFile, access } from "node:fs/promises";
+import { text } from "node:stream/consumers";
+import ora from "ora";
+import { findRepoRoot, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
+import { getParser } from "../parsers/index.ts";
+import { log } from "../util/logger.ts";
+import { getMachineName } from "../core/machine.ts";
+import { prepareStorage, updateStoredFile, adoptStoredName } from "../core/sync.ts";
+import { renderTemplateFile } from "../core/template.ts";
+import { parseKeySpec, writeValue, type KeySpec } from "../core/values.ts";
+
+/**
+ * `bwrss set <file>:<key>=<value>` — change one stored value without saving
+ * the local files. Without `=<value>`, the value is read from stdin.
+ * With `local`, the key is also updated in the local file.
+ */
+export async function setCommand(spec: string, options: { dir?: string; local?: boolean }): Promise<void> {
+  const repoRoot = await findRepoRoot(resolve(options.dir ?? "."));
+  if (!repoRoot || !(await configExists(repoRoot))) {
+    log.error(`No .bwrss config found for ${resolve(options.dir ?? ".")}`);
+    process.exit(1);
+  }
+
+  const config = await readConfig(repoRoot);
+  const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+  let keySpec: KeySpec;
+  try {
+    keySpec = parseKeySpec(spec, config.files);
+  } catch (e) {
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+  const { file, key } = keySpec;
+
+  const value = keySpec.value ?? await readStdinValue();
+
+  const filePath = resolve(repoRoot, file.path);
+  const local = options.local === true && (await access(filePath).then(() => true, () => false));
+  if (options.local && !local) {
+    log.warn(`${file.path} not found locally; only the stored value will change.`);
+  }
+
+  const machineName = file.machine ? await getMachineName() : undefined;
+  const spinner = ora(`Setting ${file.path}:${key} for ${canonicalName}...`).start();
+
+  try {
+    await prepareStorage();
+    const previousName = await adoptStoredName(repoRoot, config, canonicalName, machineName, spinner);
+    const stored = await updateStoredFile(
+      canonicalName,
+      machineName,
+      file.path,
+      (payload) => writeValue(file, payload, key, value),
+      spinner,
+      {
+        encryption: config.encryption,
+        target: itemTarget(config),
+        keyFields: config.keyFields,
+        // The next save would put back the old value unless the local file has the new one
+        record: local,
+      },
+    );
+
+    if (local) {
+      if (file.template) {
+        await renderTemplateFile(resolve(repoRoot, file.template), filePath, file.template, stored);
+      } else {
+        await writeFile(filePath, getParser(file.path)!.merge(await readFile(filePath, "utf-8"), { [key]: value }), "utf-8");
+      }
+    }
+    spinner.succeed(`Set ${file.path}:${key} for ${canonicalName}${local ? " (and locally)" : ""}`);
+    if (previousName) {
+      log.warn(`Moved the items stored as bwrss:${previousName} to bwrss:${canonicalName}.`);
+    }
+  } catch (e) {
+    spinner.fail(`Failed to set ${file.path}:${key} for ${canonicalName}`);
+    log.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+}
+
+async function readStdinValue(): Promise<string> {
+  if (process.stdin.isTTY) {
+    log.error("No value given. Use <file>:<key>=<value> or pipe the value to stdin.");
+    process.exit(1);
+  }
+  // Drop the newline `echo` and most editors add
+  return (await text(process.stdin)).replace(/\r?\n$/, "");
+}
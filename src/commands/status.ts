@@ -0,0 +1,97 @@
+import { resolve } from "node:path";
+import chalk from "chalk";
+import ora from "ora";
+import { findRepos, getCanonicalName } from "../core/repo.ts";
+import { readConfig, configExists, itemTarget } from "../core/config.ts";
+import { log } from "../util/logger.ts";
+import { isReferenceOnly } from "../core/references.ts";
+import { getMachineName } from "../core/machine.ts";
+import { prepareStorage, resolveStoredName } from "../core/sync.ts";
+import { getFileStatuses, type FileStatusEntry } from "../core/status.ts";
+import type { FileSyncStatus } from "../types/index.ts";
+
+/**
+ * `bwrss status` — show whether each managed file is in sync with the vault.
+ */
+export async function statusCommand(dirs: string[]): Promise<void> {
+  const repoRoots: string[] = [];
+  for (const dir of dirs) {
+    const found = await findRepos(resolve(dir));
+    repoRoots.push(...found);
+  }
+
+  if (repoRoots.length === 0) {
+    log.warn("No git repositories found.");
+    return;
+  }
+
+  for (const repoRoot of repoRoots) {
+    if (!(await configExists(repoRoot))) {
+      log.dim(`Skipping ${repoRoot} (no .bwrss config)`);
+      continue;
+    }
+
+    const config = await readConfig(repoRoot);
+    const canonicalName = config.name ?? await getCanonicalName(repoRoot);
+
+    const hasMachineFiles = config.files.some((f) => f.machine);
+    let machineName: string | undefined;
+    if (hasMachineFiles) {
+      machineName = await getMachineName();
+    }
+
+    const spinner = ora(`Checking ${canonicalName}...`).start();
+
+    try {
+      await prepareStorage();
+      const storedName = await resolveStoredName(repoRoot, config, canonicalName, machineName);
+      const entries = await getFileStatuses(
+        storedName,
+        machineName,
+        config.files.filter((f) => !isReferenceOnly(f)),
+        (p) => resolve(repoRoot, p),
+        { encryption: config.encryption, target: itemTarget(config) },
+      );
+      spinner.stop();
+
+      console.log();
+      console.log(chalk.bold(`bwrss:${storedName}`) + chalk.dim(` (${repoRoot})`));
+      printStatusEntries(entries, "");
+    } catch (e) {
+      spinner.fail(`Failed to check status for ${canonicalName}`);
+      log.error(e instanceof Error ? e.message : String(e));
+    }
+  }
+}
+
+/**
+ * Print one line per file with a colored status label.
+ */
+export function printStatusEntries(entries: FileStatusEntry[], prefix: string): void {
+  for (const entry of entries) {
+    console.log(padRight(`  ${prefix}${entry.path}`, 42) + formatStatus(entry.status));
+  }
+}
+
+function formatStatus(status: FileSyncStatus): string {
+  switch (status) {
+    case "in-sync":
+      return chalk.green("in sync");
+    case "local-modified":
+      return chalk.yellow("locally modified") + chalk.dim(" (save to upload)");
+    case "remote-modified":
+      return chalk.cyan("remotely modified") + chalk.dim(" (restore --force to update)");
+    case "conflicted":
+      return chalk.red("conflicted") + chalk.dim(" (changed locally and remotely)");
+    case "local-only":
+      return chalk.yellow("not saved");
+    case "remote-only":
+      return chalk.cyan("missing locally") + chalk.dim(" (restore to create)");
+    case "missing":
+      return chalk.dim("missing");
+  }
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str + " " : str + " ".repeat(len - str.length);
+}
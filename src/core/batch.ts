@@ -0,0 +1,148 @@
+import chalk from "chalk";
+import ora, { type Ora } from "ora";
+import { log, createBufferedLog, type Logger } from "../util/logger.ts";
+import { mapConcurrent } from "../util/concurrency.ts";
+import { getMachineName } from "./machine.ts";
+
+/** How processing one repo ended */
+export type RepoOutcome =
+  | { status: "done"; name: string; files: number }
+  | { status: "skipped"; name?: string; reason: string }
+  | { status: "failed"; name?: string; reason: string };
+
+export type RepoResult = RepoOutcome & { repoRoot: string };
+
+/** What a per-repo step reports through */
+export interface RepoTask {
+  log: Logger;
+  /** Start a spinner for this repo (silent when repos run in parallel) */
+  spinner(text: string): Ora;
+  /** This machine's name, prompted for at most once per invocation */
+  machineName(): Promise<string>;
+}
+
+/**
+ * Run `fn` for each repo. Without `jobs`, repos run one at a time with their
+ * own spinners, as before. With `jobs`, up to that many run at once: a single
+ * progress line is shown, each repo's messages are printed together when it
+ * finishes, and a summary table ends the run.
+ */
+export async function runRepos(
+  repoRoots: string[],
+  options: {
+    jobs?: number;
+    /** Progress verb, e.g. "Saving" */
+    action: string;
+    /** What happened to the files, for the summary, e.g. "saved" */
+    filesVerb: string;
+  },
+  fn: (repoRoot: string, task: RepoTask) => Promise<RepoOutcome>,
+): Promise<RepoResult[]> {
+  let machine: Promise<string> | undefined;
+  const machineName = () => (machine ??= getMachineName());
+
+  if (options.jobs === undefined) {
+    const results: RepoResult[] = [];
+    for (const repoRoot of repoRoots) {
+      const task: RepoTask = { log, spinner: (text) => ora(text).start(), machineName };
+      results.push(await runOne(repoRoot, task, fn));
+    }
+    return results;
+  }
+
+  let done = 0;
+  let running = 0;
+  const progress = ora().start();
+  const update = () => {
+    progress.text = `${options.action} ${repoRoots.length} repo(s): ${done} done, ${running} running...`;
+  };
+  update();
+
+  const results = await mapConcurrent(repoRoots, options.jobs, async (repoRoot) => {
+    running++;
+    update();
+    const buffered = createBufferedLog();
+    const task: RepoTask = {
+      log: buffered.log,
+      spinner: (text) => ora({ text, isSilent: true }).start(),
+      machineName: () => {
+        progress.stop();
+        return machineName().finally(() => progress.start());
+      },
+    };
+    const result = await runOne(repoRoot, task, fn);
+    running--;
+    done++;
+
+    progress.clear();
+    console.log(formatResultLine(result));
+    buffered.flush();
+    update();
+    progress.render();
+    return result;
+  });
+
+  progress.stop();
+  printSummary(results, options.filesVerb);
+  return results;
+}
+
+async function runOne(
+  repoRoot: string,
+  task: RepoTask,
+  fn: (repoRoot: string, task: RepoTask) => Promise<RepoOutcome>,
+): Promise<RepoResult> {
+  try {
+    return { ...(await fn(repoRoot, task)), repoRoot };
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    task.log.error(`${repoRoot}: ${reason}`);
+    return { status: "failed", reason, repoRoot };
+  }
+}
+
+function formatResultLine(result: RepoResult): string {
+  const label = result.name ?? result.repoRoot;
+  switch (result.status) {
+    case "done":
+      return chalk.green("✔ ") + chalk.bold(label) + chalk.dim(` (${result.files} file(s))`);
+    case "skipped":
+      return chalk.dim(`- ${label} (${result.reason})`);
+    case "failed":
+      return chalk.red("✖ ") + chalk.bold(label);
+  }
+}
+
+/**
+ * Print a table of repos with their outcome, then totals ("N file(s) `filesVerb`").
+ */
+export function printSummary(results: RepoResult[], filesVerb: string): void {
+  console.log();
+  console.log(chalk.dim("─".repeat(80)));
+  console.log(chalk.dim(padRight("Repo", 44) + padRight("Result", 10) + padRight("Files", 7) + "Details"));
+  console.log(chalk.dim("─".repeat(80)));
+
+  for (const result of results) {
+    const label = padRight(result.name ?? result.repoRoot, 44);
+    switch (result.status) {
+      case "done":
+        console.log(label + chalk.green(padRight("ok", 10)) + padRight(String(result.files), 7));
+        break;
+      case "skipped":
+        console.log(label + chalk.dim(padRight("skipped", 10)) + padRight("-", 7) + chalk.dim(result.reason));
+        break;
+      case "failed":
+        console.log(label + chalk.red(padRight("failed", 10)) + padRight("-", 7) + result.reason);
+        break;
+    }
+  }
+
+  const count = (status: RepoResult["status"]) => results.filter((r) => r.status === status).length;
+  const files = results.reduce((sum, r) => sum + (r.status === "done" ? r.files : 0), 0);
+  console.log(chalk.dim("─".repeat(80)));
+  console.log(`${count("done")} succeeded, ${count("skipped")} skipped, ${count("failed")} failed, ${files} file(s) ${filesVerb}`);
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str + " " : str + " ".repeat(len - str.length);
+}
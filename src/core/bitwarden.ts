@@ -1,21 +1,53 @@
 import { execFile } from "node:child_process";
-import { writeFile, unlink } from "node:fs/promises";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { BitwardenError } from "../util/errors.ts";
-import type { BwItem, MachineInfo } from "../types/index.ts";
+import type { BwField, BwItem, BwOrganizationObject } from "../types/index.ts";
+import type { BwServe } from "./bw-serve.ts";
+
+/** When set, operations go to this `bw serve` endpoint instead of spawning `bw` */
+let server: BwServe | undefined;
+
+/**
+ * Route the functions below through a `bw serve` connection, or back to the
+ * `bw` CLI with undefined.
+ */
+export function useBwServe(connection: BwServe | undefined): void {
+  server = connection;
+}
+
+/** Commands that change the vault, run one at a time since every `bw` process shares its data file */
+const WRITE_COMMANDS = new Set(["create", "edit", "delete"]);
+
+/** Tail of the queued write commands */
+let writes: Promise<unknown> = Promise.resolve();
 
 /**
  * Run a `bw` CLI command and return stdout.
  */
 async function bw(...args: string[]): Promise<string> {
-  return new Promise((resolve, reject) => {
-    execFile("bw", args, { env: process.env, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+  return (await bwRaw(...args)).toString("utf-8").trim();
+}
+
+/**
+ * Run a `bw` CLI command and return stdout as raw bytes.
+ */
+function bwRaw(...args: string[]): Promise<Buffer> {
+  const run = () => new Promise<Buffer>((resolve, reject) => {
+    execFile("bw", args, { env: process.env, encoding: "buffer", maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
       if (error) {
-        reject(new BitwardenError(`bw ${args.join(" ")} failed (exit ${error.code}): ${stderr.trim()}`));
+        reject(new BitwardenError(`bw ${args.join(" ")} failed (exit ${error.code}): ${stderr.toString("utf-8").trim()}`));
         return;
       }
-      resolve(stdout.trim());
+      resolve(stdout);
     });
   });
+  if (!WRITE_COMMANDS.has(args[0]!)) return run();
+
+  const result = writes.then(run);
+  writes = result.catch(() => {});
+  return result;
 }
 
 /**
@@ -38,6 +70,13 @@ export function ensureSession(session?: string): void {
  * Check that `bw` is available and the vault is unlocked.
  */
 export async function ensureUnlocked(): Promise<void> {
+  if (server) {
+    const status = await server.request<{ template: { status: string } }>("GET", "/status");
+    if (status.template.status !== "unlocked") {
+      throw new BitwardenError(`Bitwarden vault behind ${server.url} is ${status.template.status}. Unlock it first.`);
+    }
+    return;
+  }
   try {
     const status = await bw("status");
     const parsed = JSON.parse(status);
@@ -56,6 +95,10 @@ export async function ensureUnlocked(): Promise<void> {
  * Sync the local Bitwarden cache.
  */
 export async function sync(): Promise<void> {
+  if (server) {
+    await server.request("POST", "/sync");
+    return;
+  }
   await bw("sync");
 }
 
@@ -63,6 +106,10 @@ export async function sync(): Promise<void> {
  * Search for items by name.
  */
 export async function searchItems(name: string): Promise<BwItem[]> {
+  if (server) {
+    const list = await server.request<{ data: BwItem[] }>("GET", `/list/object/items?search=${encodeURIComponent(name)}`);
+    return list.data;
+  }
   const output = await bw("list", "items", "--search", name);
   return JSON.parse(output);
 }
@@ -71,20 +118,50 @@ export async function searchItems(name: string): Promise<BwItem[]> {
  * Get a single item by ID.
  */
 export async function getItem(id: string): Promise<BwItem> {
+  if (server) return server.request<BwItem>("GET", `/object/item/${encodeURIComponent(id)}`);
   const output = await bw("get", "item", id);
   return JSON.parse(output);
 }
 
 /**
- * Create a secure note item and return it.
+ * List the organizations the logged-in user belongs to.
  */
-export async function createSecureNote(name: string, notes: string): Promise<BwItem> {
+export async function listOrganizations(): Promise<BwOrganizationObject[]> {
+  if (server) return (await server.request<{ data: BwOrganizationObject[] }>("GET", "/list/object/organizations")).data;
+  return JSON.parse(await bw("list", "organizations"));
+}
+
+/**
+ * List the collections of an organization.
+ */
+export async function listCollections(organizationId: string): Promise<BwOrganizationObject[]> {
+  if (server) {
+    const list = await server.request<{ data: BwOrganizationObject[] }>(
+      "GET",
+      `/list/object/org-collections?organizationid=${encodeURIComponent(organizationId)}`,
+    );
+    return list.data;
+  }
+  return JSON.parse(await bw("list", "org-collections", "--organizationid", organizationId));
+}
+
+/**
+ * Create a secure note item and return it — in an organization and its
+ * collections if given, otherwise in the personal vault.
+ */
+export async function createSecureNote(
+  name: string,
+  notes: string,
+  owner?: { organizationId: string; collectionIds: string[] },
+): Promise<BwItem> {
   const template = {
     type: 2, // secure note
     name,
     notes,
     secureNote: { type: 0 },
+    ...(owner ? { organizationId: owner.organizationId, collectionIds: owner.collectionIds } : {}),
   };
+  if (server) return server.request<BwItem>("POST", "/object/item", template);
   const encoded = Buffer.from(JSON.stringify(template)).toString("base64");
   const output = await bw("create", "item", encoded);
   return JSON.parse(output);
@@ -94,93 +171,86 @@ export async function createSecureNote(name: string, notes: string): Promise<BwI
  * Update the notes field of an existing item.
  */
 export async function updateItemNotes(item: BwItem, notes: string): Promise<BwItem> {
-  const updated = { ...item, notes };
+  return editItem({ ...item, notes });
+}
+
+/**
+ * Change the name of an existing item.
+ */
+export async function renameItem(item: BwItem, name: string): Promise<BwItem> {
+  return editItem({ ...item, name });
+}
+
+/**
+ * Replace the custom fields of an existing item.
+ */
+export async function updateItemFields(item: BwItem, fields: BwField[]): Promise<BwItem> {
+  return editItem({ ...item, fields });
+}
+
+async function editItem(updated: BwItem): Promise<BwItem> {
+  if (server) return server.request<BwItem>("PUT", `/object/item/${encodeURIComponent(updated.id)}`, updated);
   const encoded = Buffer.from(JSON.stringify(updated)).toString("base64");
-  const output = await bw("edit", "item", item.id, encoded);
+  const output = await bw("edit", "item", updated.id, encoded);
   return JSON.parse(output);
 }
 
+/**
+ * Delete an item (`bw` moves it to the trash).
+ */
+export async function deleteItem(itemId: string): Promise<void> {
+  if (server) {
+    await server.request("DELETE", `/object/item/${encodeURIComponent(itemId)}`);
+    return;
+  }
+  await bw("delete", "item", itemId);
+}
+
 /**
  * Create or replace an attachment on an item.
  */
-export async function setAttachment(itemId: string, fileName: string, content: string): Promise<void> {
+export async function setAttachment(itemId: string, fileName: string, content: Buffer): Promise<void> {
   // First remove existing attachment with same name if present
   const item = await getItem(itemId);
   const existing = item.attachments?.find((a) => a.fileName === fileName);
   if (existing) {
-    await bw("delete", "attachment", existing.id, "--itemid", itemId);
+    await deleteAttachment(itemId, existing.id);
+  }
+
+  if (server) {
+    await server.upload(`/attachment?itemid=${encodeURIComponent(itemId)}`, fileName, content);
+    return;
   }
 
-  // Write to temp file, attach, clean up
-  const tmpPath = `/tmp/bwrss-${Date.now()}-${fileName}`;
-  await writeFile(tmpPath, content, "utf-8");
+  // Write to a private temp directory (mkdtemp creates it 0700), attach, clean up
+  const tmpDir = await mkdtemp(join(tmpdir(), "bwrss-"));
   try {
+    const tmpPath = join(tmpDir, fileName);
+    await writeFile(tmpPath, content, { mode: 0o600 });
     await bw("create", "attachment", "--file", tmpPath, "--itemid", itemId);
   } finally {
-    await unlink(tmpPath).catch(() => {});
+    await rm(tmpDir, { recursive: true, force: true });
   }
 }
 
 /**
- * Download an attachment and return its content.
+ * Delete an attachment from an item.
  */
-export async function getAttachment(itemId: string, attachmentId: string): Promise<string> {
-  const output = await bw("get", "attachment", attachmentId, "--itemid", itemId, "--raw");
-  return output;
-}
-
-/**
- * Find a bwrss secure note by canonical name.
- */
-export async function findBwrssItem(canonicalName: string): Promise<BwItem | null> {
-  const searchName = `bwrss:${canonicalName}`;
-  const items = await searchItems(searchName);
-  return items.find((i) => i.name === searchName) ?? null;
-}
-
-/**
- * Find a machine-specific bwrss secure note: `bwrss:<name>@<machine>`.
- */
-export async function findBwrssItemForMachine(canonicalName: string, machineName: string): Promise<BwItem | null> {
-  const searchName = `bwrss:${canonicalName}@${machineName}`;
-  const items = await searchItems(searchName);
-  return items.find((i) => i.name === searchName) ?? null;
+export async function deleteAttachment(itemId: string, attachmentId: string): Promise<void> {
+  if (server) {
+    await server.request("DELETE", `/object/attachment/${encodeURIComponent(attachmentId)}?itemid=${encodeURIComponent(itemId)}`);
+    return;
+  }
+  await bw("delete", "attachment", attachmentId, "--itemid", itemId);
 }
 
 /**
- * Discover all known machines by searching Bitwarden for `bwrss:*@*` items.
- * Extracts machine names and last save timestamps from item metadata.
+ * Download an attachment and return its content.
+ * Read as raw bytes so binary (compressed or encrypted) data survives intact.
  */
-export async function discoverMachines(): Promise<MachineInfo[]> {
-  const items = await searchItems("bwrss:");
-  const machineMap = new Map<string, string>();
-
-  for (const item of items) {
-    const atIdx = item.name.indexOf("@");
-    if (atIdx === -1) continue;
-
-    const machineName = item.name.slice(atIdx + 1);
-    if (!machineName) continue;
-
-    // Parse timestamp from notes metadata
-    let timestamp = "";
-    if (item.notes) {
-      try {
-        const meta = JSON.parse(item.notes);
-        timestamp = meta.timestamp ?? "";
-      } catch {
-        // invalid metadata
-      }
-    }
-
-    // Keep the most recent timestamp per machine
-    const existing = machineMap.get(machineName);
-    if (!existing || timestamp > existing) {
-      machineMap.set(machineName, timestamp);
-    }
+export async function getAttachment(itemId: string, attachmentId: string): Promise<Buffer> {
+  if (server) {
+    return server.download(`/object/attachment/${encodeURIComponent(attachmentId)}?itemid=${encodeURIComponent(itemId)}`);
   }
-
-  return Array.from(machineMap.entries())
-    .map(([name, lastSave]) => ({ name, lastSave }))
-    .sort((a, b) => a.name.localeCompare(b.name));
+  return bwRaw("get", "attachment", attachmentId, "--itemid", itemId, "--raw");
 }
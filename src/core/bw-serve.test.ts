@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { BwItem } from "../types/index.ts";
+import { createBitwardenBackend } from "../backends/bitwarden.ts";
+import { useBwServe } from "./bitwarden.ts";
+import { resolveBwServeUrl, DEFAULT_SERVE_URL } from "./bw-serve.ts";
+
+/** In-memory stand-in for the `bw serve` Vault Management API */
+function startStubServer(): Promise<{ server: Server; url: string; requests: string[] }> {
+  const items: BwItem[] = [];
+  const blobs = new Map<string, Buffer>();
+  const requests: string[] = [];
+  let nextId = 1;
+
+  async function readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://stub");
+    requests.push(`${req.method} ${url.pathname}`);
+    const json = (data?: unknown) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ success: true, data }));
+    };
+    const find = (id: string) => items.find((i) => i.id === id);
+    const [, kind, object, id] = url.pathname.split("/");
+
+    if (req.method === "GET" && url.pathname === "/status") return json({ object: "template", template: { status: "unlocked" } });
+    if (req.method === "POST" && url.pathname === "/sync") return json();
+    if (req.method === "GET" && url.pathname === "/list/object/items") {
+      const search = url.searchParams.get("search") ?? "";
+      return json({ object: "list", data: items.filter((i) => i.name.includes(search)) });
+    }
+    if (kind === "object" && object === "item") {
+      if (req.method === "POST") {
+        const item = { ...JSON.parse((await readBody(req)).toString()), id: `item-${nextId++}`, attachments: [] };
+        items.push(item);
+        return json(item);
+      }
+      const item = find(id!);
+      if (!item) {
+        res.statusCode = 404;
+        return res.end(JSON.stringify({ success: false, message: "Not found." }));
+      }
+      if (req.method === "PUT") {
+        Object.assign(item, JSON.parse((await readBody(req)).toString()), { attachments: item.attachments });
+      }
+      return json(item);
+    }
+    if (req.method === "POST" && url.pathname === "/attachment") {
+      const item = find(url.searchParams.get("itemid")!)!;
+      const form = await new Response(new Uint8Array(await readBody(req)), {
+        headers: { "Content-Type": req.headers["content-type"]! },
+      }).formData();
+      const file = form.get("file") as File;
+      const attachment = { id: `att-${nextId++}`, fileName: file.name, size: String(file.size) };
+      blobs.set(attachment.id, Buffer.from(await file.arrayBuffer()));
+      item.attachments = [...(item.attachments ?? []), attachment];
+      return json(item);
+    }
+    if (kind === "object" && object === "attachment") {
+      const item = find(url.searchParams.get("itemid")!)!;
+      if (req.method === "DELETE") {
+        item.attachments = item.attachments?.filter((a) => a.id !== id);
+        blobs.delete(id!);
+        return json();
+      }
+      res.setHeader("Content-Type", "application/octet-stream");
+      return res.end(blobs.get(id!));
+    }
+    res.statusCode = 404;
+    res.end(JSON.stringify({ success: false, message: `No route for ${req.method} ${url.pathname}` }));
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+describe("bw serve transport", () => {
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  beforeEach(async () => {
+    stub = await startStubServer();
+  });
+
+  afterEach(async () => {
+    useBwServe(undefined);
+    await new Promise((resolve) => stub.server.close(resolve));
+  });
+
+  test("stores and reads items and attachments over HTTP", async () => {
+    const backend = createBitwardenBackend({ serveUrl: stub.url });
+    await backend.prepare();
+
+    let item = await backend.createItem("bwrss:repo", "{}");
+    item = await backend.updateNotes(item, '{"version":1}');
+    const binary = Buffer.from([0, 1, 2, 255]);
+    await backend.writeAttachment(item, "bwrss-data.0.json.gz", binary);
+
+    const found = (await backend.findItem("bwrss:repo"))!;
+    expect(found.notes).toBe('{"version":1}');
+    expect((await backend.readAttachment(found, "bwrss-data.0.json.gz"))?.equals(binary)).toBe(true);
+
+    await backend.deleteAttachment(found, "bwrss-data.0.json.gz");
+    expect((await backend.findItem("bwrss:repo"))?.attachments).toEqual([]);
+    expect(stub.requests.slice(0, 3)).toEqual(["GET /status", "GET /status", "POST /sync"]);
+  });
+
+  test("reports API errors", async () => {
+    const backend = createBitwardenBackend({ serveUrl: stub.url });
+    await backend.prepare();
+    const ghost = { id: "missing", name: "bwrss:ghost", attachments: [] };
+    await expect(backend.updateNotes(ghost, "x")).rejects.toThrow("HTTP 404");
+  });
+});
+
+describe("resolveBwServeUrl", () => {
+  const original = process.env.BWRSS_BW_SERVE;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.BWRSS_BW_SERVE;
+    else process.env.BWRSS_BW_SERVE = original;
+  });
+
+  test("reads the machine config and the environment", () => {
+    delete process.env.BWRSS_BW_SERVE;
+    expect(resolveBwServeUrl({})).toBeUndefined();
+    expect(resolveBwServeUrl({ bwServe: true })).toBe(DEFAULT_SERVE_URL);
+    expect(resolveBwServeUrl({ bwServe: "http://localhost:9000/" })).toBe("http://localhost:9000");
+
+    process.env.BWRSS_BW_SERVE = "0";
+    expect(resolveBwServeUrl({ bwServe: true })).toBeUndefined();
+  });
+});
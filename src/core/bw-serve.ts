@@ -0,0 +1,164 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import type { MachineConfig } from "../types/index.ts";
+import { BitwardenError } from "../util/errors.ts";
+
+/** Where `bw serve` listens by default */
+export const DEFAULT_SERVE_URL = "http://localhost:8087";
+
+/** How long to wait for a `bw serve` started by bwrss to answer */
+const START_TIMEOUT_MS = 30_000;
+
+/** Signals that end bwrss without an `exit` event, so a started server is stopped on them */
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+
+/** A connection to a `bw serve` Vault Management API endpoint */
+export interface BwServe {
+  url: string;
+  /** Send a JSON request and return the response's `data` */
+  request<T>(method: string, path: string, body?: unknown): Promise<T>;
+  /** Download a binary response (attachment content) */
+  download(path: string): Promise<Buffer>;
+  /** Upload a file as multipart form data and return the response's `data` */
+  upload<T>(path: string, fileName: string, content: Buffer): Promise<T>;
+  /** Stop the server if bwrss started it */
+  close(): void;
+}
+
+interface ServeResponse {
+  success: boolean;
+  message?: string;
+  data?: unknown;
+}
+
+/**
+ * URL of the `bw serve` endpoint to use, from `BWRSS_BW_SERVE` or the machine
+ * config's `bwServe` (`true` means the default URL). Undefined to use the CLI.
+ */
+export function resolveBwServeUrl(config: MachineConfig): string | undefined {
+  const value = process.env.BWRSS_BW_SERVE ?? config.bwServe;
+  if (value === undefined || value === false || value === "" || value === "0" || value === "false") return undefined;
+  if (value === true || value === "1" || value === "true") return DEFAULT_SERVE_URL;
+  return value.replace(/\/+$/, "");
+}
+
+/**
+ * Connect to `bw serve` at `url`. If nothing answers and the URL is local,
+ * start `bw serve` (using BW_SESSION). It is stopped by `close()`, or when
+ * bwrss exits or is interrupted.
+ */
+export async function connectBwServe(url: string): Promise<BwServe> {
+  if (await isListening(url)) return createClient(url);
+
+  const { hostname, port } = new URL(url);
+  // IPv6 hosts keep their brackets in URLs, but `bw serve --hostname` wants the bare address
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  if (!["localhost", "127.0.0.1", "::1"].includes(host)) {
+    throw new BitwardenError(`No 'bw serve' answering at ${url}.`);
+  }
+  if (!process.env.BW_SESSION) {
+    throw new BitwardenError(
+      `No 'bw serve' answering at ${url}, and no BW_SESSION to start one. Run 'bw unlock' and export BW_SESSION.`,
+    );
+  }
+
+  const child = spawn("bw", ["serve", "--hostname", host, "--port", port || "8087"], {
+    env: process.env,
+    stdio: "ignore",
+  });
+  // Don't keep bwrss alive for the server; stop it when bwrss exits
+  child.unref();
+  const stop = () => {
+    process.removeListener("exit", stop);
+    for (const signal of SHUTDOWN_SIGNALS) process.removeListener(signal, interrupted);
+    if (child.exitCode === null) child.kill();
+  };
+  const interrupted = (signal: NodeJS.Signals) => {
+    stop();
+    // Die of the signal as bwrss would have without this handler
+    if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+  };
+  process.once("exit", stop);
+  for (const signal of SHUTDOWN_SIGNALS) process.once(signal, interrupted);
+
+  try {
+    await waitForServer(url, child);
+  } catch (e) {
+    stop();
+    throw e;
+  }
+  return createClient(url, stop);
+}
+
+function createClient(url: string, onClose?: () => void): BwServe {
+  async function send(method: string, path: string, init: RequestInit = {}): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${url}${path}`, { ...init, method });
+    } catch (e) {
+      throw new BitwardenError(`bw serve ${method} ${path} failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as ServeResponse | null;
+      throw new BitwardenError(`bw serve ${method} ${path} failed (HTTP ${response.status}): ${body?.message ?? response.statusText}`);
+    }
+    return response;
+  }
+
+  async function unwrap<T>(method: string, path: string, response: Response): Promise<T> {
+    const body = await response.json() as ServeResponse;
+    if (!body.success) {
+      throw new BitwardenError(`bw serve ${method} ${path} failed: ${body.message ?? "unknown error"}`);
+    }
+    return body.data as T;
+  }
+
+  return {
+    url,
+
+    async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+      const response = await send(method, path, body === undefined ? {} : {
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      return unwrap<T>(method, path, response);
+    },
+
+    async download(path: string): Promise<Buffer> {
+      const response = await send("GET", path);
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async upload<T>(path: string, fileName: string, content: Buffer): Promise<T> {
+      const form = new FormData();
+      form.append("file", new Blob([new Uint8Array(content)]), fileName);
+      const response = await send("POST", path, { body: form });
+      return unwrap<T>("POST", path, response);
+    },
+
+    close(): void {
+      onClose?.();
+    },
+  };
+}
+
+async function isListening(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${url}/status`, { signal: AbortSignal.timeout(2000) });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+async function waitForServer(url: string, child: ChildProcess): Promise<void> {
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new BitwardenError(`'bw serve' exited with code ${child.exitCode} before it was ready.`);
+    }
+    if (await isListening(url)) return;
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  child.kill();
+  throw new BitwardenError(`'bw serve' did not answer at ${url} within ${START_TIMEOUT_MS / 1000}s.`);
+}
@@ -0,0 +1,99 @@
+/** Remotes tried, in order, when naming a repo after its git remote */
+export const DEFAULT_REMOTES = ["upstream", "origin"];
+
+/**
+ * Pick the remote a repo is named after: the first of `preference` that
+ * exists, or the only remote if there's just one.
+ */
+export function pickRemote(remotes: string[], preference: string[] = DEFAULT_REMOTES): string | undefined {
+  const preferred = preference.find((name) => remotes.includes(name));
+  if (preferred) return preferred;
+  return remotes.length === 1 ? remotes[0] : undefined;
+}
+
+/**
+ * Turn a git remote URL into a canonical name (`host/owner/repo`) so every
+ * clone of a repo maps to the same vault item, whichever protocol it uses.
+ * - git@github.com:User/Repo.git → github.com/user/repo
+ * - ssh://git@host:2222/org/repo.git → host/org/repo
+ * - https://token@github.com/org/repo/ → github.com/org/repo
+ * - git://host/org/repo → host/org/repo
+ * User names, passwords, ports and the `.git` suffix are dropped and the
+ * name is lowercased. `hostRewrites` then maps mirrors onto their source.
+ * Local paths keep their path, without the host part.
+ */
+export function canonicalizeRemoteUrl(url: string, hostRewrites: Record<string, string> = {}): string {
+  const { host, path } = splitRemoteUrl(url.trim());
+  const cleanPath = path
+    .split(/[\\/]+/)
+    .filter((segment) => segment !== "" && segment !== ".")
+    .join("/")
+    .replace(/\.git$/i, "")
+    .toLowerCase();
+  if (!host) return cleanPath;
+
+  const lowerHost = host.toLowerCase().replace(/\.$/, "");
+  const rewritten = rewriteHost(lowerHost, hostRewrites);
+  return cleanPath ? `${rewritten}/${cleanPath}` : rewritten;
+}
+
+function splitRemoteUrl(url: string): { host: string; path: string } {
+  // Scheme URLs: ssh://, git+ssh://, git://, https://, file://, ...
+  const schemeMatch = url.match(/^([a-z][a-z0-9+.-]*):\/\/([^/]*)(.*)$/i);
+  if (schemeMatch) {
+    const scheme = schemeMatch[1]!.toLowerCase();
+    const authority = schemeMatch[2]!;
+    const path = stripQuery(schemeMatch[3]!);
+    if (scheme === "file") return { host: "", path };
+    return { host: hostOf(authority), path };
+  }
+
+  // scp-like syntax: [user@]host:path — git only treats it as such when
+  // there's no slash before the first colon
+  const scpMatch = url.match(/^(?:[^@/]+@)?(\[[^\]]+\]|[^:/]+):(.*)$/);
+  if (scpMatch && !/^[a-z]$/i.test(scpMatch[1]!)) {
+    return { host: scpMatch[1]!.replace(/^\[|\]$/g, ""), path: scpMatch[2]! };
+  }
+
+  // Anything else is a local path (including Windows drive paths)
+  return { host: "", path: url.replace(/^[a-z]:/i, "") };
+}
+
+/** Host of a URL authority, without credentials or port */
+function hostOf(authority: string): string {
+  const withoutUser = authority.slice(authority.lastIndexOf("@") + 1);
+  const bracketed = withoutUser.match(/^\[([^\]]+)\]/);
+  if (bracketed) return bracketed[1]!;
+  return withoutUser.replace(/:\d*$/, "");
+}
+
+function stripQuery(path: string): string {
+  return path.replace(/[?#].*$/, "");
+}
+
+function rewriteHost(host: string, rewrites: Record<string, string>): string {
+  for (const [from, to] of Object.entries(rewrites)) {
+    if (from.toLowerCase() === host) return to.toLowerCase();
+  }
+  return host;
+}
+
+/**
+ * The name earlier versions derived from the `origin` URL, kept so items
+ * stored under it can still be found. Only handles `user@host:path` and URLs,
+ * and keeps ports and case.
+ */
+export function legacyRemoteName(url: string): string {
+  const sshMatch = url.match(/^[\w-]+@([\w.-]+):(.*?)(?:\.git)?$/);
+  if (sshMatch) {
+    return `${sshMatch[1]}/${sshMatch[2]}`;
+  }
+
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/^\//, "").replace(/\.git$/, "");
+    return `${parsed.host}/${path}`;
+  } catch {
+    return url.replace(/\.git$/, "");
+  }
+}
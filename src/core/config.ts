@@ -1,7 +1,10 @@
 import { resolve } from "node:path";
 import { readFile, writeFile, access } from "node:fs/promises";
 import YAML from "yaml";
-import type { BwrssConfig } from "../types/index.ts";
+import type { BwrssConfig, ItemTarget, ManagedFile } from "../types/index.ts";
+import { parseEncryptionConfig } from "./encryption.ts";
+import { parseReference } from "./references.ts";
+import { getParser } from "../parsers/index.ts";
 import { ConfigError } from "../util/errors.ts";
 
 const CONFIG_FILENAME = ".bwrss";
@@ -66,25 +69,86 @@ export function validateConfig(obj: unknown): BwrssConfig {
     if (file.machine !== undefined && typeof file.machine !== "boolean") {
       throw new ConfigError(`Invalid .bwrss config: 'machine' for ${file.path} must be a boolean`);
     }
+    if (file.template !== undefined) {
+      if (typeof file.template !== "string" || !file.template) {
+        throw new ConfigError(`Invalid .bwrss config: 'template' for ${file.path} must be a path`);
+      }
+      if (file.keys !== undefined || file.refs !== undefined) {
+        throw new ConfigError(`Invalid .bwrss config: ${file.path} can't combine 'template' with 'keys' or 'refs'`);
+      }
+    }
+    if (file.refs !== undefined) {
+      if (!file.refs || typeof file.refs !== "object" || Array.isArray(file.refs)) {
+        throw new ConfigError(`Invalid .bwrss config: 'refs' for ${file.path} must map keys to bw:// references`);
+      }
+      if (!getParser(file.path)) {
+        throw new ConfigError(`Invalid .bwrss config: 'refs' for ${file.path} needs a format with key support`);
+      }
+      for (const ref of Object.values(file.refs)) {
+        if (typeof ref !== "string") {
+          throw new ConfigError(`Invalid .bwrss config: 'refs' for ${file.path} must map keys to bw:// references`);
+        }
+        parseReference(ref);
+      }
+    }
   }
 
   // Support both camelCase and kebab-case for ignored files
   const ignoredRaw = config["ignored-files"] ?? config["ignoredFiles"];
   if (ignoredRaw !== undefined && !Array.isArray(ignoredRaw)) {
-    throw new ConfigError("Invalid config: 'ignored-files' must be an array of strings");
+    throw new ConfigError("Invalid .bwrss config: 'ignored-files' must be an array of strings");
   }
   const ignoredFiles = Array.isArray(ignoredRaw)
     ? ignoredRaw.filter((s: unknown) => typeof s === "string") as string[]
     : undefined;
+  const encryption = parseEncryptionConfig(config.encryption, ".bwrss config");
+
+  if (config.organization !== undefined && (typeof config.organization !== "string" || !config.organization)) {
+    throw new ConfigError("Invalid .bwrss config: 'organization' must be an organization name or ID");
+  }
+  if (config.collections !== undefined) {
+    if (!Array.isArray(config.collections) || !config.collections.every((c) => typeof c === "string" && c)) {
+      throw new ConfigError("Invalid .bwrss config: 'collections' must be an array of collection names or IDs");
+    }
+    if (config.organization === undefined) {
+      throw new ConfigError("Invalid .bwrss config: 'collections' requires 'organization'");
+    }
+  }
+  if (config.aliases !== undefined) {
+    if (!Array.isArray(config.aliases) || !config.aliases.every((a) => typeof a === "string" && a)) {
+      throw new ConfigError("Invalid .bwrss config: 'aliases' must be an array of previous repo names");
+    }
+  }
+  if (config.keyFields !== undefined && typeof config.keyFields !== "boolean") {
+    throw new ConfigError("Invalid .bwrss config: 'keyFields' must be a boolean");
+  }
+  if (config.organization !== undefined && !(Array.isArray(config.collections) && config.collections.length > 0)) {
+    throw new ConfigError("Invalid .bwrss config: 'organization' requires at least one entry in 'collections'");
+  }
 
   return {
     version: 1,
     name: typeof config.name === "string" ? config.name : undefined,
-    files: config.files.map((f: { path: string; keys?: string[]; machine?: boolean }) => ({
+    ...(config.aliases?.length ? { aliases: config.aliases as string[] } : {}),
+    files: config.files.map((f: ManagedFile) => ({
       path: f.path,
       ...(f.keys ? { keys: f.keys } : {}),
       ...(f.machine ? { machine: true } : {}),
+      ...(f.refs ? { refs: f.refs } : {}),
+      ...(f.template ? { template: f.template } : {}),
     })),
     ...(ignoredFiles && ignoredFiles.length > 0 ? { ignoredFiles } : {}),
+    ...(encryption ? { encryption } : {}),
+    ...(config.organization ? { organization: config.organization as string, collections: config.collections as string[] } : {}),
+    ...(config.keyFields ? { keyFields: true } : {}),
   };
 }
+
+/**
+ * The organization and collections a config's items live in, or undefined
+ * for the personal vault.
+ */
+export function itemTarget(config: BwrssConfig): ItemTarget | undefined {
+  if (!config.organization || !config.collections) return undefined;
+  return { organization: config.organization, collections: config.collections };
+}
@@ -0,0 +1,34 @@
+import { describe, test, expect } from "bun:test";
+import { encryptPayload, decryptPayload, parseEncryptionConfig, ENCRYPTION_SCHEME } from "./encryption.ts";
+
+describe("encryptPayload", () => {
+  test("round-trips with the same passphrase", async () => {
+    const { data, encryption } = await encryptPayload(Buffer.from('{"files":[]}'), "team secret");
+    expect(encryption.scheme).toBe(ENCRYPTION_SCHEME);
+    expect(data.toString("utf-8")).not.toContain("files");
+    const decrypted = await decryptPayload(data, encryption, "team secret", "bwrss:repo");
+    expect(decrypted.toString("utf-8")).toBe('{"files":[]}');
+  });
+
+  test("rejects a wrong passphrase", async () => {
+    const { data, encryption } = await encryptPayload(Buffer.from('{"files":[]}'), "team secret");
+    await expect(decryptPayload(data, encryption, "guess", "bwrss:repo")).rejects.toThrow("Cannot decrypt bwrss:repo");
+  });
+
+  test("rejects unknown schemes", async () => {
+    await expect(decryptPayload(Buffer.alloc(0), { scheme: "age", salt: "" }, "x", "bwrss:repo")).rejects.toThrow('unsupported encryption scheme "age"');
+  });
+});
+
+describe("parseEncryptionConfig", () => {
+  test("accepts true, objects and absence", () => {
+    expect(parseEncryptionConfig(undefined, ".bwrss config")).toBeUndefined();
+    expect(parseEncryptionConfig(true, ".bwrss config")).toEqual({});
+    expect(parseEncryptionConfig({ keyFile: "~/team.key" }, ".bwrss config")).toEqual({ keyFile: "~/team.key" });
+  });
+
+  test("rejects other values", () => {
+    expect(() => parseEncryptionConfig("yes", ".bwrss config")).toThrow("'encryption' must be");
+    expect(() => parseEncryptionConfig({ keyFile: 1 }, ".bwrss config")).toThrow("'encryption.keyFile'");
+  });
+});
@@ -0,0 +1,96 @@
+import { readFile } from "node:fs/promises";
+import type { EncryptionConfig, PayloadEncryption } from "../types/index.ts";
+import { deriveKey, randomSalt, encrypt, decrypt } from "../util/crypto.ts";
+import { expandHomePath } from "./home.ts";
+import { ConfigError, EncryptionError } from "../util/errors.ts";
+
+/** The only scheme so far: scrypt-derived key, AES-256-GCM */
+export const ENCRYPTION_SCHEME = "scrypt-aes-256-gcm";
+
+/** Environment variable read for the passphrase unless `passphraseEnv` names another */
+export const DEFAULT_PASSPHRASE_ENV = "BWRSS_ENCRYPTION_PASSPHRASE";
+
+/**
+ * Validate an `encryption:` config value (from .bwrss, home.yaml or the machine config).
+ * `true` enables encryption with the default passphrase variable.
+ */
+export function parseEncryptionConfig(value: unknown, where: string): EncryptionConfig | undefined {
+  if (value === undefined || value === false) return undefined;
+  if (value === true) return {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ConfigError(`Invalid ${where}: 'encryption' must be true or an object with 'keyFile' or 'passphraseEnv'`);
+  }
+  const raw = value as Record<string, unknown>;
+  if (raw.keyFile !== undefined && typeof raw.keyFile !== "string") {
+    throw new ConfigError(`Invalid ${where}: 'encryption.keyFile' must be a string`);
+  }
+  if (raw.passphraseEnv !== undefined && typeof raw.passphraseEnv !== "string") {
+    throw new ConfigError(`Invalid ${where}: 'encryption.passphraseEnv' must be a string`);
+  }
+  return {
+    ...(raw.keyFile ? { keyFile: raw.keyFile } : {}),
+    ...(raw.passphraseEnv ? { passphraseEnv: raw.passphraseEnv } : {}),
+  };
+}
+
+/**
+ * Read the team passphrase for an encryption config: the contents of `keyFile`,
+ * or the `passphraseEnv` environment variable.
+ */
+export async function readEncryptionPassphrase(config: EncryptionConfig): Promise<string> {
+  if (config.keyFile) {
+    const path = expandHomePath(config.keyFile);
+    let text: string;
+    try {
+      text = await readFile(path, "utf-8");
+    } catch {
+      throw new EncryptionError(`Cannot read encryption key file ${path}`);
+    }
+    if (!text.trim()) throw new EncryptionError(`Encryption key file ${path} is empty`);
+    return text.trim();
+  }
+
+  const variable = config.passphraseEnv ?? DEFAULT_PASSPHRASE_ENV;
+  const passphrase = process.env[variable];
+  if (!passphrase) {
+    throw new EncryptionError(`Encryption is enabled but ${variable} is not set.`);
+  }
+  return passphrase;
+}
+
+/**
+ * Encrypt payload data. Returns the data to store as the attachment and the
+ * scheme parameters to record in the metadata.
+ */
+export async function encryptPayload(
+  data: Buffer,
+  passphrase: string,
+): Promise<{ data: Buffer; encryption: PayloadEncryption }> {
+  const salt = randomSalt();
+  const key = await deriveKey(passphrase, salt);
+  return {
+    data: encrypt(key, data),
+    encryption: { scheme: ENCRYPTION_SCHEME, salt: salt.toString("base64") },
+  };
+}
+
+/**
+ * Decrypt an attachment produced by `encryptPayload`.
+ * Throws EncryptionError if the scheme is unknown or the passphrase is wrong.
+ */
+export async function decryptPayload(
+  data: Buffer,
+  encryption: PayloadEncryption,
+  passphrase: string,
+  source: string,
+): Promise<Buffer> {
+  if (encryption.scheme !== ENCRYPTION_SCHEME) {
+    throw new EncryptionError(`${source} uses unsupported encryption scheme "${encryption.scheme}". Upgrade bwrss.`);
+  }
+  const key = await deriveKey(passphrase, Buffer.from(encryption.salt, "base64"));
+  try {
+    return decrypt(key, data);
+  } catch {
+    throw new EncryptionError(`Cannot decrypt ${source}: wrong passphrase or key file.`);
+  }
+}
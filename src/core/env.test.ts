@@ -0,0 +1,23 @@
+import { describe, test, expect } from "bun:test";
+import { envName, payloadVariables } from "./env.ts";
+
+describe("envName", () => {
+  test("keeps dotenv names and converts flattened paths", () => {
+    expect(envName("DB_PASSWORD")).toBe("DB_PASSWORD");
+    expect(envName("database.password")).toBe("DATABASE_PASSWORD");
+    expect(envName("aws.keys[0].secret")).toBe("AWS_KEYS_0_SECRET");
+    expect(envName("1password.token")).toBe("_1PASSWORD_TOKEN");
+  });
+});
+
+describe("payloadVariables", () => {
+  test("uses keys or parses full files", () => {
+    expect(payloadVariables({ path: "secrets.yaml", keys: { "db.password": "x" } })).toEqual({ DB_PASSWORD: "x" });
+    expect(payloadVariables({ path: ".env", content: "# c\nA=1\nB=\"two\"\n" })).toEqual({ A: "1", B: "two" });
+  });
+
+  test("returns null for binary files and unknown formats", () => {
+    expect(payloadVariables({ path: "key.pem", content: "-----BEGIN" })).toBeNull();
+    expect(payloadVariables({ path: ".env", content: "AAA=", encoding: "base64" })).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import type { FilePayload, ManagedFile } from "../types/index.ts";
+import { getParser } from "../parsers/index.ts";
+import { resolveReferences } from "./references.ts";
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Environment variable name for a payload key: dotenv-style names are kept,
+ * flattened paths become upper snake case (`database.password` → `DATABASE_PASSWORD`).
+ */
+export function envName(key: string): string {
+  if (ENV_NAME.test(key)) return key;
+  const name = key.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, "").toUpperCase();
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Environment variables from a file payload: its keys, or the parsed content
+ * of a full file. Returns null for binary files and formats without a parser.
+ */
+export function payloadVariables(payload: FilePayload): Record<string, string> | null {
+  let keys = payload.keys;
+  if (!keys) {
+    const parser = getParser(payload.path);
+    if (!parser || payload.content === undefined || payload.encoding === "base64") return null;
+    keys = parser.parse(payload.content);
+  }
+  return Object.fromEntries(Object.entries(keys).map(([key, value]) => [envName(key), value]));
+}
+
+/**
+ * Environment variables from the payloads of `files`, plus their `refs`.
+ * Later files win over earlier ones. `skipped` lists saved files that
+ * couldn't be turned into variables.
+ */
+export async function collectVariables(
+  files: ManagedFile[],
+  payloads: FilePayload[],
+): Promise<{ variables: Record<string, string>; skipped: string[] }> {
+  const variables: Record<string, string> = {};
+  const skipped: string[] = [];
+  for (const managedFile of files) {
+    const payload = payloads.find((p) => p.path === managedFile.path);
+    if (payload) {
+      const fromPayload = payloadVariables(payload);
+      if (fromPayload) {
+        Object.assign(variables, fromPayload);
+      } else {
+        skipped.push(managedFile.path);
+      }
+    }
+    if (managedFile.refs) {
+      for (const [key, value] of Object.entries(await resolveReferences(managedFile.refs))) {
+        variables[envName(key)] = value;
+      }
+    }
+  }
+  return { variables, skipped };
+}
@@ -0,0 +1,50 @@
+import { describe, test, expect } from "bun:test";
+import { execFileSync } from "node:child_process";
+import YAML from "yaml";
+import { formatVariables, secretName } from "./export.ts";
+
+const VARS = { DB_HOST: "db.internal", DB_PASSWORD: "it's $secret", CERT: "line1\nline2" };
+
+describe("formatVariables", () => {
+  test("dotenv quotes what needs quoting", () => {
+    expect(formatVariables({ A: "plain", B: "a b $c", C: "it's", D: "x\ny" }, "dotenv", "r")).toBe(
+      "A=plain\nB='a b $c'\nC=\"it's\"\nD=\"x\\ny\"\n",
+    );
+  });
+
+  test("dotenv escapes $ in double-quoted values", () => {
+    expect(formatVariables({ A: "it's $HOME", B: "${X}\nz" }, "dotenv", "r")).toBe(
+      "A=\"it's \\$HOME\"\nB=\"\\${X}\\nz\"\n",
+    );
+  });
+
+  test("json and yaml keep values as they are", () => {
+    expect(JSON.parse(formatVariables(VARS, "json", "r"))).toEqual(VARS);
+    expect(YAML.parse(formatVariables(VARS, "yaml", "r"))).toEqual(VARS);
+    expect(YAML.parse(formatVariables({}, "yaml", "r"))).toEqual({});
+  });
+
+  test("shell output survives eval", () => {
+    const script = formatVariables({ ...VARS, EMPTY: "", EVIL: "'; echo pwned; '$(id)`id`" }, "shell", "r");
+    const out = execFileSync("sh", ["-c", `${script}printf '%s|' "$DB_PASSWORD" "$CERT" "$EMPTY" "$EVIL"`], { encoding: "utf-8" });
+    expect(out).toBe("it's $secret|line1\nline2||'; echo pwned; '$(id)`id`|");
+  });
+
+  test("docker-env rejects multi-line values", () => {
+    expect(formatVariables({ A: "a b", B: "'q'" }, "docker-env", "r")).toBe("A=a b\nB='q'\n");
+    expect(() => formatVariables(VARS, "docker-env", "r")).toThrow("CERT spans several lines");
+  });
+
+  test("k8s-secret base64-encodes the data", () => {
+    const manifest = YAML.parse(formatVariables(VARS, "k8s-secret", "github.com/Acme/api"));
+    expect(manifest).toMatchObject({ apiVersion: "v1", kind: "Secret", metadata: { name: "github-com-acme-api" }, type: "Opaque" });
+    expect(Buffer.from(manifest.data.CERT, "base64").toString("utf-8")).toBe("line1\nline2");
+  });
+});
+
+describe("secretName", () => {
+  test("makes a valid object name", () => {
+    expect(secretName("gitlab.com/group/sub/My_Repo")).toBe("gitlab-com-group-sub-my-repo");
+    expect(secretName("___")).toBe("bwrss");
+  });
+});
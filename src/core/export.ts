@@ -0,0 +1,70 @@
+import YAML from "yaml";
+import { ConfigError } from "../util/errors.ts";
+
+export const EXPORT_FORMATS = ["dotenv", "json", "yaml", "shell", "docker-env", "k8s-secret"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Values that need no quoting in dotenv and shell output */
+const PLAIN_VALUE = /^[A-Za-z0-9_./:@%+,=-]*$/;
+
+/**
+ * Serialize variables in an export format. `name` is the Kubernetes Secret
+ * name for `k8s-secret`. Throws ConfigError for values a format can't hold.
+ */
+export function formatVariables(variables: Record<string, string>, format: ExportFormat, name: string): string {
+  const entries = Object.entries(variables);
+  switch (format) {
+    case "dotenv":
+      return lines(entries.map(([key, value]) => `${key}=${dotenvQuote(value)}`));
+    case "json":
+      return JSON.stringify(variables, null, 2) + "\n";
+    case "yaml":
+      return entries.length ? YAML.stringify(variables) : "{}\n";
+    case "shell":
+      return lines(entries.map(([key, value]) => `export ${key}=${shellQuote(value)}`));
+    case "docker-env":
+      // `docker run --env-file` takes values verbatim, one per line
+      return lines(entries.map(([key, value]) => {
+        if (/[\r\n]/.test(value)) {
+          throw new ConfigError(`${key} spans several lines, which docker-env files can't hold. Use another format.`);
+        }
+        return `${key}=${value}`;
+      }));
+    case "k8s-secret":
+      return YAML.stringify({
+        apiVersion: "v1",
+        kind: "Secret",
+        metadata: { name: secretName(name) },
+        type: "Opaque",
+        data: Object.fromEntries(entries.map(([key, value]) => [key, Buffer.from(value, "utf-8").toString("base64")])),
+      });
+  }
+}
+
+/**
+ * Kubernetes object name for a canonical repo name:
+ * lowercase alphanumerics and dashes (`github.com/acme/api` → `github-com-acme-api`).
+ */
+export function secretName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 253).replace(/-+$/, "");
+  return slug || "bwrss";
+}
+
+function lines(items: string[]): string {
+  return items.map((item) => `${item}\n`).join("");
+}
+
+function dotenvQuote(value: string): string {
+  if (PLAIN_VALUE.test(value)) return value;
+  // Single quotes are literal in dotenv; double quotes for what they can't hold,
+  // with `$` escaped so dotenv-expand and docker compose don't expand it
+  if (!/['\r\n]/.test(value)) return `'${value}'`;
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\$/g, "\\$").replace(/\r/g, "\\r").replace(/\n/g, "\\n")}"`;
+}
+
+/** Quote for POSIX shells, safe to `eval` */
+function shellQuote(value: string): string {
+  if (value !== "" && PLAIN_VALUE.test(value)) return value;
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
@@ -0,0 +1,74 @@
+import { readFile } from "node:fs/promises";
+import type { FilePayload, ManagedFile } from "../types/index.ts";
+import { getParser } from "../parsers/index.ts";
+import { getFileMode } from "../util/permissions.ts";
+import { parseTemplate, extractTemplateValues } from "./template.ts";
+import { hashFilePayload } from "./storage.ts";
+import { ParserError } from "../util/errors.ts";
+
+/**
+ * Detect whether a buffer contains binary (non-text) content.
+ */
+export function isBinary(buf: Buffer): boolean {
+  // Check for null bytes in the first 8KB — a simple heuristic
+  const len = Math.min(buf.length, 8192);
+  for (let i = 0; i < len; i++) {
+    if (buf[i] === 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Read a local managed file into the payload form that `save` uploads.
+ * Files with `keys` and a known parser keep only the matching keys, minus
+ * keys filled from `refs`. Files rendered from a template (at `templatePath`)
+ * keep the values of its `bwrss` placeholders as keys. Everything else is
+ * stored as a full file (base64 for binary content).
+ */
+export async function readFilePayload(filePath: string, managedFile: ManagedFile, templatePath?: string): Promise<FilePayload> {
+  const mode = await getFileMode(filePath);
+  const buf = Buffer.from(await readFile(filePath));
+  const binary = isBinary(buf);
+
+  if (managedFile.template && templatePath) {
+    const parts = parseTemplate(await readFile(templatePath, "utf-8"), managedFile.template);
+    const keys = extractTemplateValues(parts, buf.toString("utf-8"));
+    if (!keys) {
+      throw new ParserError(`${managedFile.path} no longer matches ${managedFile.template}. Render it again or update the template.`);
+    }
+    return { path: managedFile.path, keys, mode };
+  }
+
+  const parser = getParser(managedFile.path);
+  if (managedFile.keys && managedFile.keys.length > 0 && parser) {
+    const keys = parser.extract(buf.toString("utf-8"), managedFile.keys);
+    for (const key of Object.keys(managedFile.refs ?? {})) {
+      delete keys[key];
+    }
+    return { path: managedFile.path, keys, mode };
+  }
+
+  return {
+    path: managedFile.path,
+    content: binary ? buf.toString("base64") : buf.toString("utf-8"),
+    mode,
+    ...(binary ? { encoding: "base64" as const } : {}),
+  };
+}
+
+/**
+ * Whether a local managed file already holds `payload` (what `status` reports
+ * as in sync). A file that can't be read as a payload doesn't match.
+ */
+export async function fileMatchesPayload(
+  filePath: string,
+  managedFile: ManagedFile,
+  payload: FilePayload,
+  templatePath?: string,
+): Promise<boolean> {
+  try {
+    return hashFilePayload(await readFilePayload(filePath, managedFile, templatePath)) === hashFilePayload(payload);
+  } catch {
+    return false;
+  }
+}
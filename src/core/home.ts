@@ -50,6 +50,16 @@ export async function writeHomeConfig(config: BwrssConfig): Promise<void> {
   if (config.ignoredFiles && config.ignoredFiles.length > 0) {
     obj["ignored-files"] = config.ignoredFiles;
   }
+  if (config.encryption) {
+    obj.encryption = config.encryption;
+  }
+  if (config.organization) {
+    obj.organization = config.organization;
+    obj.collections = config.collections;
+  }
+  if (config.keyFields) {
+    obj.keyFields = true;
+  }
   const text = YAML.stringify(obj, { indent: 2 });
   await writeFile(HOME_CONFIG_PATH, text, "utf-8");
 }
@@ -60,3 +70,10 @@ export async function writeHomeConfig(config: BwrssConfig): Promise<void> {
 export function resolveHomePath(relativePath: string): string {
   return resolve(homedir(), relativePath);
 }
+
+/**
+ * Expand a leading `~` in a user-supplied path and make it absolute.
+ */
+export function expandHomePath(path: string): string {
+  return resolve(path.replace(/^~(?=\/|$)/, homedir()));
+}
@@ -0,0 +1,51 @@
+import type { FilePayload, StoredField, StoredItem } from "../types/index.ts";
+import { hashFilePayload } from "./storage.ts";
+
+/**
+ * Name of the hidden custom field holding one key of a partial file, e.g. `.env:DB_PASSWORD`.
+ */
+export function keyFieldName(path: string, key: string): string {
+  return `${path}:${key}`;
+}
+
+/**
+ * One hidden field per key of each partial (`keys`) file.
+ */
+export function buildKeyFields(files: FilePayload[]): StoredField[] {
+  return files.flatMap((f) => Object.entries(f.keys ?? {}).map(([key, value]) => ({ name: keyFieldName(f.path, key), value })));
+}
+
+/**
+ * The keys of a partial file as currently stored in the item's fields.
+ */
+export function readKeyFields(item: StoredItem, path: string): Record<string, string> {
+  const prefix = keyFieldName(path, "");
+  return Object.fromEntries(
+    (item.fields ?? []).filter((f) => f.name.startsWith(prefix)).map((f) => [f.name.slice(prefix.length), f.value]),
+  );
+}
+
+/**
+ * Replace the keys of the files in `paths` with the values of their fields,
+ * so keys added, changed or removed in Bitwarden win over the payload.
+ */
+export function applyKeyFields(item: StoredItem, paths: string[] | undefined, files: FilePayload[]): FilePayload[] {
+  if (!paths || paths.length === 0) return files;
+  return files.map((f) => (f.keys && paths.includes(f.path) ? { ...f, keys: readKeyFields(item, f.path) } : f));
+}
+
+/**
+ * Content hash of each file in `paths` as stored in the item's fields (see hashFilePayload).
+ */
+export function hashKeyFields(item: StoredItem, paths: string[]): Record<string, string> {
+  return Object.fromEntries(paths.map((path) => [path, hashFilePayload({ path, keys: readKeyFields(item, path) })]));
+}
+
+/**
+ * The item's fields with the key fields of `paths` replaced by `keyFields`.
+ * Other fields (such as payload blobs) are kept.
+ */
+export function replaceKeyFields(item: StoredItem, paths: string[], keyFields: StoredField[]): StoredField[] {
+  const kept = (item.fields ?? []).filter((f) => !paths.some((path) => f.name.startsWith(keyFieldName(path, ""))));
+  return [...kept, ...keyFields];
+}
@@ -0,0 +1,53 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import { createLocalBackend } from "../backends/local.ts";
+import { readBlob, writeBlobs, deleteBlobs, FIELD_CHUNK_SIZE } from "./layout.ts";
+
+describe("payload layouts", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(resolve(tmpdir(), "bwrss-layout-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("splits large blobs across numbered hidden fields", async () => {
+    const backend = createLocalBackend(dir, "test");
+    const data = Buffer.alloc(FIELD_CHUNK_SIZE * 2, 7);
+    let item = await backend.createItem("bwrss:repo", "{}");
+    item = await writeBlobs(backend, item, "fields", [{ name: "bwrss-data.json", data }]);
+
+    expect(item.fields?.map((f) => f.name)).toEqual(["bwrss-data.json#0", "bwrss-data.json#1", "bwrss-data.json#2"]);
+    expect((await readBlob(backend, item, "bwrss-data.json"))?.equals(data)).toBe(true);
+    expect(await readBlob(backend, item, "bwrss-history-1.json")).toBeNull();
+  });
+
+  test("replaces a copy written by the other layout", async () => {
+    const backend = createLocalBackend(dir, "test");
+    let item = await backend.createItem("bwrss:repo", "{}");
+    item = await writeBlobs(backend, item, "attachments", [{ name: "bwrss-data.json", data: Buffer.from("old") }]);
+    item = (await backend.findItem("bwrss:repo"))!;
+    item = await writeBlobs(backend, item, "fields", [{ name: "bwrss-data.json", data: Buffer.from("new") }]);
+
+    item = (await backend.findItem("bwrss:repo"))!;
+    expect(item.attachments).toEqual([]);
+    expect((await readBlob(backend, item, "bwrss-data.json"))?.toString()).toBe("new");
+
+    item = await deleteBlobs(backend, item, ["bwrss-data.json"]);
+    expect(item.fields).toEqual([]);
+  });
+
+  test("keeps unrelated fields", async () => {
+    const backend = createLocalBackend(dir, "test");
+    let item = await backend.createItem("bwrss:repo", "{}");
+    item = await backend.updateFields(item, [{ name: "bwrss-data.json#note", value: "keep" }]);
+    item = await writeBlobs(backend, item, "fields", [{ name: "bwrss-data.json", data: Buffer.from("x") }]);
+    item = await deleteBlobs(backend, item, ["bwrss-data.json"]);
+    expect(item.fields).toEqual([{ name: "bwrss-data.json#note", value: "keep" }]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { PayloadLayout, StorageBackend, StoredField, StoredItem } from "../types/index.ts";
+
+/**
+ * Base64 characters per hidden field. Bitwarden rejects field values over
+ * 5000 characters once encrypted, which adds about a third plus a header.
+ */
+export const FIELD_CHUNK_SIZE = 3000;
+
+/**
+ * Read a stored payload blob: the attachment `name`, or failing that the
+ * hidden fields `name#0`, `name#1`, ... written by the "fields" layout.
+ * Returns null if the item has neither.
+ */
+export async function readBlob(backend: StorageBackend, item: StoredItem, name: string): Promise<Buffer | null> {
+  const attachment = await backend.readAttachment(item, name);
+  if (attachment !== null) return attachment;
+
+  const parts = blobFields(item, name);
+  if (parts.length === 0) return null;
+  return Buffer.from(parts.map((f) => f.value).join(""), "base64");
+}
+
+/**
+ * Write payload blobs using `layout`, replacing any copy left under the same
+ * name by the other layout. Returns the updated item.
+ */
+export async function writeBlobs(
+  backend: StorageBackend,
+  item: StoredItem,
+  layout: PayloadLayout,
+  blobs: { name: string; data: Buffer }[],
+): Promise<StoredItem> {
+  const names = blobs.map((b) => b.name);
+
+  if (layout === "attachments") {
+    for (const blob of blobs) {
+      await backend.writeAttachment(item, blob.name, blob.data);
+    }
+    return removeBlobFields(backend, item, names);
+  }
+
+  const fields = (item.fields ?? []).filter((f) => !names.some((name) => isBlobField(f.name, name)));
+  for (const blob of blobs) {
+    const text = blob.data.toString("base64");
+    for (let i = 0; i * FIELD_CHUNK_SIZE < text.length || i === 0; i++) {
+      fields.push({ name: `${blob.name}#${i}`, value: text.slice(i * FIELD_CHUNK_SIZE, (i + 1) * FIELD_CHUNK_SIZE) });
+    }
+  }
+  const updated = await backend.updateFields(item, fields);
+  for (const name of names) {
+    if (item.attachments.some((a) => a.fileName === name)) {
+      await backend.deleteAttachment(updated, name);
+    }
+  }
+  return updated;
+}
+
+/**
+ * Delete payload blobs in either layout. Returns the updated item.
+ */
+export async function deleteBlobs(backend: StorageBackend, item: StoredItem, names: string[]): Promise<StoredItem> {
+  for (const name of names) {
+    if (item.attachments.some((a) => a.fileName === name)) {
+      await backend.deleteAttachment(item, name);
+    }
+  }
+  return removeBlobFields(backend, item, names);
+}
+
+/**
+ * Stored size in bytes of the payload blob `name`, in either layout (0 if missing).
+ */
+export function blobSize(item: StoredItem, name: string): number {
+  const attachment = item.attachments.find((a) => a.fileName === name);
+  if (attachment) return attachment.size;
+  return Buffer.byteLength(blobFields(item, name).map((f) => f.value).join(""), "base64");
+}
+
+async function removeBlobFields(backend: StorageBackend, item: StoredItem, names: string[]): Promise<StoredItem> {
+  const fields = item.fields ?? [];
+  const kept = fields.filter((f) => !names.some((name) => isBlobField(f.name, name)));
+  return kept.length === fields.length ? item : backend.updateFields(item, kept);
+}
+
+function blobFields(item: StoredItem, name: string): StoredField[] {
+  return (item.fields ?? [])
+    .filter((f) => isBlobField(f.name, name))
+    .sort((a, b) => fieldIndex(a.name) - fieldIndex(b.name));
+}
+
+function isBlobField(fieldName: string, name: string): boolean {
+  return fieldName.startsWith(`${name}#`) && /^\d+$/.test(fieldName.slice(name.length + 1));
+}
+
+function fieldIndex(fieldName: string): number {
+  return Number(fieldName.slice(fieldName.lastIndexOf("#") + 1));
+}
@@ -0,0 +1,75 @@
+import { homedir } from "node:os";
+import { dirname, resolve } from "node:path";
+import { readFile, writeFile, mkdir, access } from "node:fs/promises";
+import YAML from "yaml";
+import type { MachineConfig } from "../types/index.ts";
+import { parseEncryptionConfig } from "./encryption.ts";
+import { ConfigError } from "../util/errors.ts";
+
+/**
+ * Path to the machine config. Resolved on each call so tests can point HOME elsewhere.
+ */
+export function machineConfigPath(): string {
+  return resolve(homedir(), ".config", "bwrss", "config.yaml");
+}
+
+const BACKENDS = ["bitwarden", "local"] as const;
+const LAYOUTS = ["attachments", "fields"] as const;
+
+/**
+ * Read the global machine config (~/.config/bwrss/config.yaml).
+ * Returns an empty config if the file doesn't exist.
+ */
+export async function readMachineConfig(): Promise<MachineConfig> {
+  const path = machineConfigPath();
+  const exists = await access(path).then(() => true, () => false);
+  if (!exists) return {};
+
+  const text = await readFile(path, "utf-8");
+  const parsed = YAML.parse(text);
+  if (!parsed || typeof parsed !== "object") return {};
+
+  if (parsed.backend !== undefined && !BACKENDS.includes(parsed.backend)) {
+    throw new ConfigError(`Invalid config: 'backend' must be one of ${BACKENDS.join(", ")} (in ${path})`);
+  }
+
+  if (parsed.layout !== undefined && !LAYOUTS.includes(parsed.layout)) {
+    throw new ConfigError(`Invalid config: 'layout' must be one of ${LAYOUTS.join(", ")} (in ${path})`);
+  }
+
+  if (parsed.remotes !== undefined && (!Array.isArray(parsed.remotes) || parsed.remotes.some((r: unknown) => typeof r !== "string" || r === ""))) {
+    throw new ConfigError(`Invalid config: 'remotes' must be a list of remote names (in ${path})`);
+  }
+
+  if (
+    parsed.hostRewrites !== undefined &&
+    (!parsed.hostRewrites || typeof parsed.hostRewrites !== "object" || Array.isArray(parsed.hostRewrites) ||
+      Object.values(parsed.hostRewrites).some((h) => typeof h !== "string" || h === ""))
+  ) {
+    throw new ConfigError(`Invalid config: 'hostRewrites' must map host names to host names (in ${path})`);
+  }
+
+  const encryption = parseEncryptionConfig(parsed.encryption, `config (${path})`);
+
+  return {
+    machine: typeof parsed.machine === "string" ? parsed.machine : undefined,
+    ...(parsed.backend ? { backend: parsed.backend } : {}),
+    ...(typeof parsed.store === "string" ? { store: parsed.store } : {}),
+    ...(Number.isInteger(parsed.history) && parsed.history >= 0 ? { history: parsed.history } : {}),
+    ...(typeof parsed.integrityKeyFile === "string" ? { integrityKeyFile: parsed.integrityKeyFile } : {}),
+    ...(encryption ? { encryption } : {}),
+    ...(parsed.layout ? { layout: parsed.layout } : {}),
+    ...(typeof parsed.bwServe === "boolean" || typeof parsed.bwServe === "string" ? { bwServe: parsed.bwServe } : {}),
+    ...(parsed.remotes ? { remotes: parsed.remotes } : {}),
+    ...(parsed.hostRewrites ? { hostRewrites: parsed.hostRewrites } : {}),
+  };
+}
+
+/**
+ * Write the global machine config.
+ */
+export async function writeMachineConfig(config: MachineConfig): Promise<void> {
+  await mkdir(dirname(machineConfigPath()), { recursive: true });
+  const text = YAML.stringify(config, { indent: 2 });
+  await writeFile(machineConfigPath(), text, "utf-8");
+}
@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import type { Ora } from "ora";
+import { createLocalBackend, setBackend } from "../backends/index.ts";
+import { uploadPayload, uploadMachinePayload, fetchMachinePayload, listStoredItems } from "./sync.ts";
+import { getSeenTimestamp } from "./state.ts";
+import { readMachineConfig, writeMachineConfig } from "./machine-config.ts";
+import { renameMachine, copyMachine, deleteMachine } from "./machine.ts";
+
+const spinner = { text: "" } as Ora;
+
+let dir: string;
+const originalHome = process.env.HOME;
+
+beforeEach(async () => {
+  dir = await mkdtemp(resolve(tmpdir(), "bwrss-machine-"));
+  process.env.HOME = dir;
+  setBackend(createLocalBackend(resolve(dir, "store"), "test"));
+  await writeMachineConfig({ machine: "old" });
+  await uploadPayload("app", [{ path: ".env", content: "A=1\n" }], spinner);
+  await uploadMachinePayload("app", "old", [{ path: ".env.local", content: "B=1\n" }], spinner);
+  await uploadMachinePayload("home", "old", [{ path: ".npmrc", content: "x" }], spinner);
+  await uploadMachinePayload("app", "other", [{ path: ".env.local", content: "B=2\n" }], spinner);
+});
+
+afterEach(async () => {
+  setBackend(undefined);
+  process.env.HOME = originalHome;
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function itemNames(): Promise<string[]> {
+  return (await listStoredItems()).map((i) => i.item);
+}
+
+describe("machine management", () => {
+  test("rename moves items, sync state and the current machine name", async () => {
+    const seen = await getSeenTimestamp({ backend: "local", name: "bwrss:app@old" });
+    expect(await renameMachine("old", "new", spinner)).toBe(2);
+
+    expect(await itemNames()).toEqual(["bwrss:app", "bwrss:app@new", "bwrss:app@other", "bwrss:home@new"]);
+    expect(await fetchMachinePayload("app", "new")).toEqual([{ path: ".env.local", content: "B=1\n" }]);
+    expect(await getSeenTimestamp({ backend: "local", name: "bwrss:app@new" })).toBe(seen!);
+    expect(await getSeenTimestamp({ backend: "local", name: "bwrss:app@old" })).toBeUndefined();
+    expect((await readMachineConfig()).machine).toBe("new");
+  });
+
+  test("copy duplicates items and leaves the source alone", async () => {
+    expect(await copyMachine("old", "new", spinner)).toBe(2);
+
+    expect(await itemNames()).toEqual([
+      "bwrss:app", "bwrss:app@new", "bwrss:app@old", "bwrss:app@other", "bwrss:home@new", "bwrss:home@old",
+    ]);
+    expect(await fetchMachinePayload("home", "new")).toEqual([{ path: ".npmrc", content: "x" }]);
+    expect((await readMachineConfig()).machine).toBe("old");
+  });
+
+  test("refuses to overwrite the target machine's items", async () => {
+    await expect(renameMachine("old", "other", spinner)).rejects.toThrow('Machine "other" already has items for app');
+    await expect(copyMachine("old", "a@b", spinner)).rejects.toThrow("Invalid machine name");
+    await expect(renameMachine("missing", "x", spinner)).rejects.toThrow('No items stored for machine "missing"');
+  });
+
+  test("delete removes items, state and the current machine name", async () => {
+    expect(await deleteMachine("old", spinner)).toBe(2);
+
+    expect(await itemNames()).toEqual(["bwrss:app", "bwrss:app@other"]);
+    expect(await getSeenTimestamp({ backend: "local", name: "bwrss:app@old" })).toBeUndefined();
+    expect((await readMachineConfig()).machine).toBeUndefined();
+  });
+});
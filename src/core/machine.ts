@@ -1,46 +1,21 @@
-import { homedir } from "node:os";
-import { resolve } from "node:path";
-import { readFile, writeFile, mkdir, access } from "node:fs/promises";
 import { createInterface } from "node:readline/promises";
 import chalk from "chalk";
-import ora from "ora";
-import YAML from "yaml";
-import type { MachineConfig } from "../types/index.ts";
-import { discoverMachines } from "./bitwarden.ts";
-import { ConfigError } from "../util/errors.ts";
-
-const CONFIG_DIR = resolve(homedir(), ".config", "bwrss");
-const CONFIG_PATH = resolve(CONFIG_DIR, "config.yaml");
-
-/**
- * Read the global machine config (~/.config/bwrss/config.yaml).
- * Returns an empty config if the file doesn't exist.
- */
-export async function readMachineConfig(): Promise<MachineConfig> {
-  const exists = await access(CONFIG_PATH).then(() => true, () => false);
-  if (!exists) return {};
-
-  const text = await readFile(CONFIG_PATH, "utf-8");
-  const parsed = YAML.parse(text);
-  if (!parsed || typeof parsed !== "object") return {};
-
-  return {
-    machine: typeof parsed.machine === "string" ? parsed.machine : undefined,
-  };
-}
-
-/**
- * Write the global machine config.
- */
-export async function writeMachineConfig(config: MachineConfig): Promise<void> {
-  await mkdir(CONFIG_DIR, { recursive: true });
-  const text = YAML.stringify(config, { indent: 2 });
-  await writeFile(CONFIG_PATH, text, "utf-8");
-}
+import ora, { type Ora } from "ora";
+import type { RemoteItemInfo } from "../types/index.ts";
+import { readMachineConfig, writeMachineConfig } from "./machine-config.ts";
+import {
+  discoverMachines,
+  listStoredItems,
+  renameStoredItem,
+  copyStoredItem,
+  deleteStoredItem,
+  itemName,
+} from "./sync.ts";
+import { ConfigError, ConflictError, StorageError } from "../util/errors.ts";
 
 /**
  * Get the current machine name, prompting interactively if not set.
- * Queries Bitwarden to show known machines — requires an unlocked vault.
+ * Queries storage to show known machines — requires an unlocked vault.
  */
 export async function getMachineName(): Promise<string> {
   const config = await readMachineConfig();
@@ -50,7 +25,7 @@ export async function getMachineName(): Promise<string> {
 
 
 /**
- * Always show the machine chooser — fetches known machines from Bitwarden,
+ * Always show the machine chooser — fetches known machines from storage,
  * highlights the current machine if set, and lets the user pick or type a new name.
  * Persists the choice to config.yaml.
  */
@@ -60,12 +35,12 @@ export async function chooseMachineName(): Promise<string> {
   const rl = createInterface({ input: process.stdin, output: process.stderr });
 
   try {
-    const spinner = ora("Fetching known machines from Bitwarden...").start();
+    const spinner = ora("Fetching known machines...").start();
     const machines = await discoverMachines();
     spinner.stop();
 
     if (machines.length > 0) {
-      console.error(chalk.bold("\nKnown machines (from Bitwarden):"));
+      console.error(chalk.bold("\nKnown machines:"));
       for (let i = 0; i < machines.length; i++) {
         const age = machines[i].lastSave ? formatTimestamp(machines[i].lastSave) : "never";
         const marker = machines[i].name === current ? chalk.green(" *") : "";
@@ -89,17 +64,17 @@ export async function chooseMachineName(): Promise<string> {
       const num = parseInt(answer, 10);
       if (num >= 1 && num <= machines.length) {
         const name = machines[num - 1].name;
-        await writeMachineConfig({ machine: name });
+        await writeMachineConfig({ ...config, machine: name });
         return name;
       }
 
       const name = answer.trim();
       if (!name) throw new ConfigError("Machine name cannot be empty.");
-      await writeMachineConfig({ machine: name });
+      await writeMachineConfig({ ...config, machine: name });
       return name;
     }
 
-    // No known machines in Bitwarden
+    // No known machines in storage
     const prompt = current
       ? `Enter a name for this machine [${current}]: `
       : "Enter a name for this machine: ";
@@ -111,7 +86,7 @@ export async function chooseMachineName(): Promise<string> {
     }
 
     if (!answer) throw new ConfigError("Machine name cannot be empty.");
-    await writeMachineConfig({ machine: answer });
+    await writeMachineConfig({ ...config, machine: answer });
     return answer;
   } finally {
     rl.close();
@@ -126,6 +101,81 @@ async function promptMachineName(): Promise<string> {
   return chooseMachineName();
 }
 
+/**
+ * Rename a machine: renames all its `bwrss:*@<from>` items, moves this
+ * machine's sync state along, and updates the machine config if `from` is
+ * the current machine. Returns the number of items renamed.
+ */
+export async function renameMachine(from: string, to: string, spinner: Ora): Promise<number> {
+  const items = await machineItems(from, to);
+  for (const item of items) {
+    const name = itemName(item.name, to);
+    spinner.text = `Renaming ${item.item} to ${name}...`;
+    await renameStoredItem(item.id, name);
+  }
+
+  const config = await readMachineConfig();
+  if (config.machine === from) {
+    await writeMachineConfig({ ...config, machine: to });
+  }
+  return items.length;
+}
+
+/**
+ * Copy all `bwrss:*@<from>` items to `<to>`, e.g. to set up a new machine
+ * like an old one. Returns the number of items copied.
+ */
+export async function copyMachine(from: string, to: string, spinner: Ora): Promise<number> {
+  const items = await machineItems(from, to);
+  for (const item of items) {
+    const name = itemName(item.name, to);
+    spinner.text = `Copying ${item.item} to ${name}...`;
+    await copyStoredItem(item.id, name);
+  }
+  return items.length;
+}
+
+/**
+ * Delete all `bwrss:*@<name>` items and their sync state. If `name` is the
+ * current machine, it's removed from the machine config so the next command
+ * asks again. Returns the number of items deleted.
+ */
+export async function deleteMachine(name: string, spinner: Ora): Promise<number> {
+  const items = await machineItems(name);
+  for (const item of items) {
+    spinner.text = `Deleting ${item.item}...`;
+    await deleteStoredItem(item.id);
+  }
+
+  const { machine, ...config } = await readMachineConfig();
+  if (machine === name) {
+    await writeMachineConfig(config);
+  }
+  return items.length;
+}
+
+/**
+ * The items of machine `from`. With `to`, checks it's a valid new machine
+ * name that has no item for the same repos yet.
+ */
+async function machineItems(from: string, to?: string): Promise<RemoteItemInfo[]> {
+  const all = await listStoredItems();
+  const items = all.filter((i) => i.machine === from);
+  if (items.length === 0) {
+    throw new StorageError(`No items stored for machine "${from}". Run 'bwrss machine list' to see known machines.`);
+  }
+  if (to === undefined) return items;
+
+  if (!to.trim() || to.includes("@")) {
+    throw new ConfigError(`Invalid machine name "${to}".`);
+  }
+  const taken = items.filter((i) => all.some((other) => other.machine === to && other.name === i.name));
+  if (taken.length > 0) {
+    throw new ConflictError(`Machine "${to}" already has items for ${taken.map((i) => i.name).join(", ")}. Delete them first.`);
+  }
+  return items;
+}
+
 function formatTimestamp(iso: string): string {
   try {
     const date = new Date(iso);
@@ -0,0 +1,58 @@
+import { describe, test, expect } from "bun:test";
+import type { ManagedFile, RemoteItemInfo } from "../types/index.ts";
+import { planPrune } from "./prune.ts";
+
+function item(name: string, files: string[], lastSave = "2026-06-01T00:00:00.000Z"): RemoteItemInfo {
+  const [canonical, machine] = name.split("@");
+  return {
+    id: name,
+    item: `bwrss:${name}`,
+    name: canonical!,
+    ...(machine !== undefined ? { machine } : {}),
+    lastSave,
+    files,
+    size: 100,
+    encrypted: false,
+  };
+}
+
+const FILES: ManagedFile[] = [{ path: ".env" }, { path: ".env.local", machine: true }];
+const context = {
+  configs: new Map([["github.com/u/app", FILES]]),
+  cutoff: new Date("2026-01-01T00:00:00.000Z"),
+  currentMachine: "laptop",
+};
+
+describe("planPrune", () => {
+  test("proposes deleting items without a local repo", () => {
+    const plan = planPrune([item("github.com/u/gone", [".env"]), item("github.com/u/gone@desktop", [".env"])], context);
+    expect(plan.map((a) => [a.item.item, a.reason, a.files])).toEqual([
+      ["bwrss:github.com/u/gone", "no local repo with this name", undefined],
+      ["bwrss:github.com/u/gone@desktop", "no local repo with this name", undefined],
+    ]);
+  });
+
+  test("proposes deleting machine items older than the cutoff, except this machine's", () => {
+    const old = "2025-03-01T00:00:00.000Z";
+    const plan = planPrune([
+      item("github.com/u/app@desktop", [".env.local"], old),
+      item("github.com/u/app@laptop", [".env.local"], old),
+      item("home@desktop", [".npmrc"], old),
+      item("home@server", [".npmrc"]),
+    ], context);
+    expect(plan.map((a) => a.item.item)).toEqual(["bwrss:github.com/u/app@desktop", "bwrss:home@desktop"]);
+    expect(plan[0]!.reason).toBe(`not saved since ${old}`);
+  });
+
+  test("proposes dropping files no longer managed in the item", () => {
+    const plan = planPrune([
+      item("github.com/u/app", [".env", ".env.local", "old.json"]),
+      item("github.com/u/app@desktop", [".env"]),
+      item("github.com/u/app@laptop", [".env.local"]),
+    ], context);
+    expect(plan.map((a) => [a.item.item, a.files])).toEqual([
+      ["bwrss:github.com/u/app", [".env.local", "old.json"]],
+      ["bwrss:github.com/u/app@desktop", undefined],
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import type { ManagedFile, RemoteItemInfo } from "../types/index.ts";
+
+/** Something `bwrss prune` proposes to remove */
+export interface PruneAction {
+  item: RemoteItemInfo;
+  /** Why it's proposed */
+  reason: string;
+  /** Files to drop from the payload; absent when the whole item goes */
+  files?: string[];
+}
+
+export interface PruneContext {
+  /** Managed files of each local repo (and of `home`, if configured), by canonical name */
+  configs: Map<string, ManagedFile[]>;
+  /** `@machine` items last saved before this time are stale */
+  cutoff: Date;
+  /** This machine's items are never stale */
+  currentMachine?: string;
+}
+
+/**
+ * Work out what to prune: items for canonical names without a local config,
+ * machine items not saved since the cutoff, and payload files that are no
+ * longer managed (or moved between shared and machine-specific).
+ * Home items are only checked against a local home config.
+ */
+export function planPrune(items: RemoteItemInfo[], context: PruneContext): PruneAction[] {
+  const actions: PruneAction[] = [];
+
+  for (const item of items) {
+    const files = context.configs.get(item.name);
+    if (!files && item.name !== "home") {
+      actions.push({ item, reason: "no local repo with this name" });
+      continue;
+    }
+
+    if (item.machine !== undefined && item.machine !== context.currentMachine && item.lastSave < context.cutoff.toISOString()) {
+      actions.push({ item, reason: `not saved since ${item.lastSave || "an unknown time"}` });
+      continue;
+    }
+
+    if (!files) continue;
+    const expected = new Set(files.filter((f) => Boolean(f.machine) === (item.machine !== undefined)).map((f) => f.path));
+    const stale = item.files.filter((path) => !expected.has(path));
+    if (stale.length === 0) continue;
+    if (stale.length === item.files.length) {
+      actions.push({ item, reason: "none of its files are in .bwrss any more" });
+    } else {
+      actions.push({ item, reason: "no longer in .bwrss for this item", files: stale });
+    }
+  }
+  return actions;
+}
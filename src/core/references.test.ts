@@ -0,0 +1,71 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile, chmod } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import { createBitwardenBackend, createLocalBackend, setBackend } from "../backends/index.ts";
+import { parseReference, resolveReferences } from "./references.ts";
+
+describe("parseReference", () => {
+  test("parses login values and fields", () => {
+    expect(parseReference("bw://Prod DB/password")).toEqual({ item: "Prod DB", value: { kind: "password" } });
+    expect(parseReference("bw://Stripe/fields/secret key")).toEqual({ item: "Stripe", value: { kind: "field", name: "secret key" } });
+  });
+
+  test("rejects malformed references", () => {
+    expect(() => parseReference("Prod DB/password")).toThrow("Invalid reference");
+    expect(() => parseReference("bw://Prod DB/secret")).toThrow("Invalid reference");
+    expect(() => parseReference("bw:///password")).toThrow("Invalid reference");
+  });
+});
+
+/** Stand-in for the `bw` CLI answering `list items` and `get item` from a fixed vault */
+const FAKE_BW = `#!/usr/bin/env node
+const items = [
+  { id: "11111111-2222-3333-4444-555555555555", name: "Prod DB", type: 1, login: { username: "app", password: "hunter2" } },
+  { id: "x", name: "Stripe", type: 1, login: {}, fields: [{ name: "secret key", value: "sk_live", type: 1 }] },
+  { id: "y", name: "Twin", type: 1 },
+  { id: "z", name: "Twin", type: 1 },
+];
+const [cmd, what, arg, search] = process.argv.slice(2);
+if (cmd === "list" && what === "items") console.log(JSON.stringify(items.filter((i) => i.name.includes(search))));
+else if (cmd === "get" && what === "item") console.log(JSON.stringify(items.find((i) => i.id === arg)));
+else { console.error("unsupported"); process.exit(1); }
+`;
+
+describe("resolveReferences", () => {
+  let dir: string;
+  const originalPath = process.env.PATH;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(resolve(tmpdir(), "bwrss-refs-"));
+    await writeFile(resolve(dir, "bw"), FAKE_BW);
+    await chmod(resolve(dir, "bw"), 0o755);
+    process.env.PATH = `${dir}:${originalPath}`;
+    setBackend(createBitwardenBackend());
+  });
+
+  afterEach(async () => {
+    process.env.PATH = originalPath;
+    setBackend(undefined);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("reads values by item name or ID", async () => {
+    expect(await resolveReferences({
+      DB_USER: "bw://Prod DB/username",
+      DB_PASSWORD: "bw://11111111-2222-3333-4444-555555555555/password",
+      STRIPE_KEY: "bw://Stripe/fields/secret key",
+    })).toEqual({ DB_USER: "app", DB_PASSWORD: "hunter2", STRIPE_KEY: "sk_live" });
+  });
+
+  test("reports missing, ambiguous and empty references", async () => {
+    await expect(resolveReferences({ A: "bw://Nope/password" })).rejects.toThrow("not found");
+    await expect(resolveReferences({ A: "bw://Twin/password" })).rejects.toThrow("2 items are named");
+    await expect(resolveReferences({ A: "bw://Stripe/password" })).rejects.toThrow("has no password");
+  });
+
+  test("needs the Bitwarden backend", async () => {
+    setBackend(createLocalBackend(resolve(dir, "store"), "test"));
+    await expect(resolveReferences({ A: "bw://Prod DB/password" })).rejects.toThrow("need the Bitwarden backend");
+  });
+});
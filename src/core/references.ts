@@ -0,0 +1,100 @@
+import type { BwItem, ManagedFile } from "../types/index.ts";
+import { getItem, searchItems } from "./bitwarden.ts";
+import { getBackend } from "../backends/index.ts";
+import { BitwardenError, ConfigError } from "../util/errors.ts";
+
+export const REFERENCE_PREFIX = "bw://";
+
+/** A `bw://<item>/<value>` reference to a value in an existing Bitwarden item */
+export interface ItemReference {
+  /** Item name or ID */
+  item: string;
+  value: { kind: "username" | "password" | "totp" | "notes" } | { kind: "field"; name: string };
+}
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse a `bw://<item name or id>/password` (or `/username`, `/totp`, `/notes`,
+ * `/fields/<name>`) reference. Throws ConfigError if it is malformed.
+ */
+export function parseReference(ref: string): ItemReference {
+  const match = ref.startsWith(REFERENCE_PREFIX)
+    ? /^(.+?)\/(username|password|totp|notes|fields\/(.+))$/.exec(ref.slice(REFERENCE_PREFIX.length))
+    : null;
+  if (!match) {
+    throw new ConfigError(
+      `Invalid reference "${ref}": expected ${REFERENCE_PREFIX}<item>/password, /username, /totp, /notes or /fields/<name>`,
+    );
+  }
+  const [, item, value, field] = match;
+  if (field !== undefined) return { item: item!, value: { kind: "field", name: field } };
+  return { item: item!, value: { kind: value as "username" | "password" | "totp" | "notes" } };
+}
+
+/**
+ * True if a managed file only pulls keys from references and has nothing of its own to save.
+ */
+export function isReferenceOnly(file: ManagedFile): boolean {
+  return file.refs !== undefined && !(file.keys && file.keys.length > 0);
+}
+
+/**
+ * Resolve a file's `refs` to their current values, keyed like `refs`.
+ * References are read-only: bwrss never writes to the referenced items.
+ */
+export async function resolveReferences(refs: Record<string, string>): Promise<Record<string, string>> {
+  if (Object.keys(refs).length === 0) return {};
+  const backend = await getBackend();
+  if (backend.name !== "bitwarden") {
+    throw new ConfigError(`${REFERENCE_PREFIX} references need the Bitwarden backend (current backend: ${backend.name}).`);
+  }
+
+  const items = new Map<string, Promise<BwItem>>();
+  const values: Record<string, string> = {};
+  for (const [key, ref] of Object.entries(refs)) {
+    const reference = parseReference(ref);
+    let item = items.get(reference.item);
+    if (!item) {
+      item = findReferencedItem(reference.item);
+      items.set(reference.item, item);
+    }
+    values[key] = readValue(await item, reference, ref);
+  }
+  return values;
+}
+
+async function findReferencedItem(nameOrId: string): Promise<BwItem> {
+  if (ID_PATTERN.test(nameOrId)) return getItem(nameOrId);
+
+  const matches = (await searchItems(nameOrId)).filter((i) => i.name === nameOrId);
+  if (matches.length === 0) {
+    throw new BitwardenError(`Referenced item "${nameOrId}" not found in the vault.`);
+  }
+  if (matches.length > 1) {
+    throw new BitwardenError(`${matches.length} items are named "${nameOrId}"; reference one by ID instead.`);
+  }
+  return matches[0]!;
+}
+
+function readValue(item: BwItem, reference: ItemReference, ref: string): string {
+  const { value } = reference;
+  let result: string | null | undefined;
+  switch (value.kind) {
+    case "username":
+    case "password":
+    case "totp":
+      result = item.login?.[value.kind];
+      break;
+    case "notes":
+      result = item.notes;
+      break;
+    case "field":
+      result = item.fields?.find((f) => f.name === value.name)?.value;
+      break;
+  }
+  if (result === null || result === undefined) {
+    throw new BitwardenError(`${ref}: item "${item.name}" has no ${value.kind === "field" ? `field "${value.name}"` : value.kind}.`);
+  }
+  return result;
+}
@@ -0,0 +1,120 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, mkdir, writeFile, realpath } from "node:fs/promises";
+import { execFileSync } from "node:child_process";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import { findRepos, findRepoRoot, getCanonicalName } from "./repo.ts";
+
+let dir: string;
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd, stdio: "ignore" });
+}
+
+/** Create a repo with one commit, optionally with a `.bwrss` */
+async function repo(path: string, bwrss = false): Promise<string> {
+  await mkdir(path, { recursive: true });
+  git(path, "init", "-q");
+  if (bwrss) await writeFile(resolve(path, ".bwrss"), "version: 1\nfiles: []\n");
+  git(path, "commit", "-q", "--allow-empty", "-m", "init");
+  return path;
+}
+
+beforeEach(async () => {
+  dir = await realpath(await mkdtemp(resolve(tmpdir(), "bwrss-repo-")));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("findRepos", () => {
+  test("descends into submodules that have their own .bwrss", async () => {
+    const main = await repo(resolve(dir, "main"), true);
+    await repo(resolve(main, "libs/with-config"), true);
+    await repo(resolve(main, "libs/plain"));
+    await repo(resolve(main, "libs/plain/nested"), true);
+    await writeFile(resolve(main, "libs/plain/.gitmodules"), '[submodule "nested"]\n\tpath = nested\n');
+    await writeFile(resolve(main, ".gitmodules"), [
+      '[submodule "with-config"]\n\tpath = libs/with-config\n',
+      '[submodule "plain"]\n\tpath = libs/plain\n',
+      '[submodule "missing"]\n\tpath = libs/missing\n',
+    ].join(""));
+
+    expect(await findRepos(dir)).toEqual([
+      main,
+      resolve(main, "libs/with-config"),
+      resolve(main, "libs/plain/nested"),
+    ]);
+  });
+
+  test("doesn't search other repos nested in a repo", async () => {
+    const main = await repo(resolve(dir, "main"));
+    await repo(resolve(main, "vendor/other"), true);
+    expect(await findRepos(dir)).toEqual([main]);
+  });
+
+  test("skips bare clones", async () => {
+    const main = await repo(resolve(dir, "main"));
+    git(dir, "clone", "-q", "--bare", main, "main.git");
+    expect(await findRepos(dir)).toEqual([main]);
+  });
+
+  test("finds linked worktrees", async () => {
+    const main = await repo(resolve(dir, "main"));
+    git(main, "worktree", "add", "-q", resolve(dir, "feature"));
+    expect((await findRepos(dir)).sort()).toEqual([resolve(dir, "feature"), main]);
+  });
+});
+
+describe("findRepoRoot", () => {
+  test("returns the top level of the working tree", async () => {
+    const main = await repo(resolve(dir, "main"));
+    await mkdir(resolve(main, "src/deep"), { recursive: true });
+    expect(await findRepoRoot(resolve(main, "src/deep"))).toBe(main);
+  });
+
+  test("stops at a submodule", async () => {
+    const main = await repo(resolve(dir, "main"));
+    const sub = await repo(resolve(main, "libs/sub"));
+    await mkdir(resolve(sub, "src"));
+    expect(await findRepoRoot(resolve(sub, "src"))).toBe(sub);
+  });
+
+  test("returns null outside a repo", async () => {
+    expect(await findRepoRoot(dir)).toBeNull();
+  });
+});
+
+describe("getCanonicalName", () => {
+  test("names worktrees after their main repo", async () => {
+    const main = await repo(resolve(dir, "webapp"));
+    git(main, "worktree", "add", "-q", resolve(dir, "webapp-feature"));
+    expect(await getCanonicalName(main)).toBe("webapp");
+    expect(await getCanonicalName(resolve(dir, "webapp-feature"))).toBe("webapp");
+  });
+
+  test("names worktrees of a bare clone after the clone", async () => {
+    const main = await repo(resolve(dir, "main"));
+    git(dir, "clone", "-q", "--bare", main, "webapp.git");
+    git(resolve(dir, "webapp.git"), "remote", "remove", "origin");
+    git(resolve(dir, "webapp.git"), "worktree", "add", "-q", resolve(dir, "wt"));
+    expect(await getCanonicalName(resolve(dir, "wt"))).toBe("webapp");
+  });
+
+  test("uses the preferred remote", async () => {
+    const main = await repo(resolve(dir, "fork"));
+    git(main, "remote", "add", "origin", "git@github.com:Me/Webapp.git");
+    expect(await getCanonicalName(main)).toBe("github.com/me/webapp");
+
+    git(main, "remote", "add", "upstream", "https://github.com/Acme/Webapp.git");
+    expect(await getCanonicalName(main)).toBe("github.com/acme/webapp");
+  });
+
+  test("worktrees share the remote name", async () => {
+    const main = await repo(resolve(dir, "main"));
+    git(main, "remote", "add", "origin", "ssh://git@github.com:22/acme/api.git");
+    git(main, "worktree", "add", "-q", resolve(dir, "wt"));
+    expect(await getCanonicalName(resolve(dir, "wt"))).toBe("github.com/acme/api");
+  });
+});
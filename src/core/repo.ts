@@ -1,7 +1,11 @@
-import { resolve, basename } from "node:path";
+import { resolve, basename, dirname } from "node:path";
 import { stat, readdir } from "node:fs/promises";
 import { execFile } from "node:child_process";
 import { SKIP_DIRS } from "../util/patterns.ts";
+import { readMachineConfig } from "./machine-config.ts";
+import { configExists } from "./config.ts";
+import { pickRemote, canonicalizeRemoteUrl, legacyRemoteName } from "./canonical.ts";
+import type { BwrssConfig } from "../types/index.ts";
 
 /**
  * Check if a directory is a git repo root (contains .git).
@@ -17,10 +21,19 @@ export async function isGitRepo(dir: string): Promise<boolean> {
 }
 
 /**
- * Find the git repo root from a given path by walking up.
+ * Find the git repo root from a given path: the top level of its working
+ * tree, as reported by `git rev-parse --show-toplevel` (a submodule or
+ * worktree root, not the repo around it). Walks up to the nearest `.git`
+ * if git can't tell.
  */
 export async function findRepoRoot(dir: string): Promise<string | null> {
   let current = resolve(dir);
+  try {
+    const toplevel = await git(current, ["rev-parse", "--show-toplevel"]);
+    if (toplevel) return resolve(toplevel);
+  } catch {
+    // not in a working tree, or no git
+  }
   while (true) {
     if (await isGitRepo(current)) return current;
     const parent = resolve(current, "..");
@@ -31,12 +44,15 @@ export async function findRepoRoot(dir: string): Promise<string | null> {
 
 /**
  * Recursively find all git repo roots under a directory.
- * If the directory itself is a repo, returns just that (no recursion into sub-repos).
- * If not, walks subdirectories skipping well-known non-project dirs.
+ * If the directory itself is a repo, returns it plus any submodules (at any
+ * depth) that have their own `.bwrss`; other sub-repos aren't searched.
+ * If not, walks subdirectories skipping well-known non-project dirs and bare
+ * clones.
  */
 export async function findRepos(dir: string): Promise<string[]> {
   const absDir = resolve(dir);
-  if (await isGitRepo(absDir)) return [absDir];
+  if (await isGitRepo(absDir)) return [absDir, ...await findSubmodules(absDir)];
+  if (await isBareRepo(absDir)) return [];
 
   const repos: string[] = [];
   try {
@@ -55,45 +71,110 @@ export async function findRepos(dir: string): Promise<string[]> {
 }
 
 /**
- * Get the canonical name for a repo. Tries git remote origin URL first,
- * falls back to directory name.
+ * Checked-out submodules of a repo (recursively) that have a `.bwrss` config.
+ */
+async function findSubmodules(repoRoot: string): Promise<string[]> {
+  let output: string;
+  try {
+    output = await git(repoRoot, ["config", "--file", ".gitmodules", "--get-regexp", "^submodule\\..*\\.path$"]);
+  } catch {
+    return []; // no .gitmodules
+  }
+
+  const found: string[] = [];
+  for (const line of output.split("\n")) {
+    const space = line.indexOf(" ");
+    if (space === -1) continue;
+    const child = resolve(repoRoot, line.slice(space + 1));
+    if (!(await isGitRepo(child))) continue; // not initialized
+    if (await configExists(child)) found.push(child);
+    found.push(...await findSubmodules(child));
+  }
+  return found;
+}
+
+/**
+ * Whether a directory is a bare clone (`git clone --bare`): it has the
+ * repository files itself instead of a `.git` entry.
+ */
+async function isBareRepo(dir: string): Promise<boolean> {
+  try {
+    const [head, objects, refs] = await Promise.all(["HEAD", "objects", "refs"].map((name) => stat(resolve(dir, name))));
+    return head!.isFile() && objects!.isDirectory() && refs!.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the canonical name for a repo: the URL of its preferred git remote
+ * (see `remotes` and `hostRewrites` in the machine config), canonicalized,
+ * or the directory name if it has no usable remote. Linked worktrees share
+ * their main repo's name.
  */
 export async function getCanonicalName(repoRoot: string): Promise<string> {
+  const { remotes, hostRewrites } = await readMachineConfig();
   try {
-    const output = await new Promise<string>((resolve, reject) => {
-      execFile("git", ["remote", "get-url", "origin"], { cwd: repoRoot }, (error, stdout) => {
-        if (error) return reject(error);
-        resolve(stdout.trim());
-      });
-    });
-    if (output) return normalizeRemoteUrl(output);
+    const names = (await git(repoRoot, ["remote"])).split("\n").filter(Boolean);
+    const remote = pickRemote(names, remotes);
+    if (remote) {
+      const url = await git(repoRoot, ["remote", "get-url", remote]);
+      const name = url && canonicalizeRemoteUrl(url, hostRewrites);
+      if (name) return name;
+    }
   } catch {
     // no git remote
   }
-  return basename(repoRoot);
+  return directoryName(repoRoot);
 }
 
 /**
- * Normalize a git remote URL to a canonical form.
- * - git@github.com:user/repo.git → github.com/user/repo
- * - https://github.com/user/repo.git → github.com/user/repo
+ * Directory name a repo is named after without a remote. For a linked
+ * worktree (`git worktree add`) that's the repo it was added from — or the
+ * bare clone, without `.git` — so every worktree gets the same name.
  */
-function normalizeRemoteUrl(url: string): string {
-  let normalized = url;
-
-  // SSH format: git@host:user/repo.git
-  const sshMatch = normalized.match(/^[\w-]+@([\w.-]+):(.*?)(?:\.git)?$/);
-  if (sshMatch) {
-    return `${sshMatch[1]}/${sshMatch[2]}`;
+async function directoryName(repoRoot: string): Promise<string> {
+  try {
+    const [gitDir, commonDir] = (await git(repoRoot, ["rev-parse", "--git-dir", "--git-common-dir"])).split("\n");
+    if (gitDir && commonDir && resolve(repoRoot, gitDir) !== resolve(repoRoot, commonDir)) {
+      const common = resolve(repoRoot, commonDir);
+      return basename(common) === ".git" ? basename(dirname(common)) : basename(common).replace(/\.git$/, "");
+    }
+  } catch {
+    // not a git checkout
   }
+  return basename(repoRoot);
+}
 
-  // HTTPS format
+/**
+ * The canonical name earlier versions used (`origin` URL, ports and case
+ * kept), so items saved under it can still be restored.
+ */
+export async function getLegacyCanonicalName(repoRoot: string): Promise<string> {
   try {
-    const parsed = new URL(normalized);
-    let path = parsed.pathname.replace(/^\//, "").replace(/\.git$/, "");
-    return `${parsed.host}/${path}`;
+    const url = await git(repoRoot, ["remote", "get-url", "origin"]);
+    if (url) return legacyRemoteName(url);
   } catch {
-    // fallback: strip .git suffix
-    return normalized.replace(/\.git$/, "");
+    // no git remote
   }
+  return basename(repoRoot);
+}
+
+/**
+ * Other names a repo's items may be stored under: its configured `aliases`
+ * and, unless the config pins `name`, the name earlier versions derived from
+ * its remote.
+ */
+export async function getPreviousNames(repoRoot: string, config: BwrssConfig, canonicalName: string): Promise<string[]> {
+  const names = [...(config.aliases ?? []), ...(config.name ? [] : [await getLegacyCanonicalName(repoRoot)])];
+  return [...new Set(names)].filter((name) => name !== canonicalName);
+}
+
+function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    execFile("git", args, { cwd }, (error, stdout) => {
+      if (error) return reject(error);
+      resolve(stdout.trim());
+    });
+  });
 }
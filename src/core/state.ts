@@ -0,0 +1,125 @@
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+import { readFile, writeFile, mkdir, access } from "node:fs/promises";
+import type { BackendName, ItemState, SyncState } from "../types/index.ts";
+
+/** Identifies an item's entry in the sync state */
+export interface ItemStateRef {
+  backend: BackendName;
+  /** Item name (`bwrss:<name>` or `bwrss:<name>@<machine>`) */
+  name: string;
+  /** Organization ID of the item (personal vault when absent) */
+  organization?: string;
+}
+
+/**
+ * Key of an item's state entry. Items with the same name in another backend
+ * or another vault get entries of their own.
+ */
+function stateKey(ref: ItemStateRef): string {
+  return `${ref.backend}/${ref.organization ?? "personal"}/${ref.name}`;
+}
+
+/**
+ * An item's entry, falling back to one keyed by its name alone as earlier
+ * versions wrote them.
+ */
+function findEntry(state: SyncState, ref: ItemStateRef): ItemState | undefined {
+  return state.items[stateKey(ref)] ?? state.items[ref.name];
+}
+
+/**
+ * Path to the local sync state file (~/.config/bwrss/state.json).
+ */
+export function statePath(): string {
+  return resolve(homedir(), ".config", "bwrss", "state.json");
+}
+
+/**
+ * Read the local sync state. Returns an empty state if the file doesn't exist.
+ */
+export async function readState(): Promise<SyncState> {
+  const path = statePath();
+  const exists = await access(path).then(() => true, () => false);
+  if (!exists) return { version: 1, items: {} };
+
+  try {
+    const parsed = JSON.parse(await readFile(path, "utf-8"));
+    if (!parsed || typeof parsed !== "object" || typeof parsed.items !== "object") {
+      return { version: 1, items: {} };
+    }
+    return { version: 1, items: parsed.items };
+  } catch {
+    // corrupted state is treated as empty — it only guards against conflicts
+    return { version: 1, items: {} };
+  }
+}
+
+/**
+ * Write the local sync state.
+ */
+export async function writeState(state: SyncState): Promise<void> {
+  const path = statePath();
+  await mkdir(resolve(path, ".."), { recursive: true });
+  await writeFile(path, JSON.stringify(state, null, 2) + "\n", { encoding: "utf-8", mode: 0o600 });
+}
+
+/**
+ * Get the remote timestamp this machine last saved or restored for an item.
+ */
+export async function getSeenTimestamp(ref: ItemStateRef): Promise<string | undefined> {
+  return findEntry(await readState(), ref)?.timestamp;
+}
+
+/**
+ * Get the recorded state of an item (timestamp and file hashes), if any.
+ */
+export async function getItemState(ref: ItemStateRef): Promise<ItemState | undefined> {
+  return findEntry(await readState(), ref);
+}
+
+// Updates are queued so repos processed in parallel don't overwrite each other's entries
+let pending: Promise<void> = Promise.resolve();
+
+function updateState(change: (state: SyncState) => void): Promise<void> {
+  const update = pending.then(async () => {
+    const state = await readState();
+    change(state);
+    await writeState(state);
+  });
+  pending = update.catch(() => {});
+  return update;
+}
+
+/**
+ * Record the remote timestamp and file hashes this machine has just saved or restored for an item.
+ */
+export function recordSeen(ref: ItemStateRef, timestamp: string, files: Record<string, string>): Promise<void> {
+  return updateState((state) => {
+    delete state.items[ref.name];
+    state.items[stateKey(ref)] = { timestamp, files };
+  });
+}
+
+/**
+ * Move the recorded state of an item to its new name after a rename.
+ */
+export function renameItemState(from: ItemStateRef, to: ItemStateRef): Promise<void> {
+  return updateState((state) => {
+    const entry = findEntry(state, from);
+    if (!entry) return;
+    delete state.items[from.name];
+    delete state.items[stateKey(from)];
+    state.items[stateKey(to)] = entry;
+  });
+}
+
+/**
+ * Drop the recorded state of a deleted item.
+ */
+export function forgetItemState(ref: ItemStateRef): Promise<void> {
+  return updateState((state) => {
+    delete state.items[ref.name];
+    delete state.items[stateKey(ref)];
+  });
+}
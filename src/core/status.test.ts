@@ -0,0 +1,81 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import type { Ora } from "ora";
+import type { ManagedFile } from "../types/index.ts";
+import { createLocalBackend, setBackend } from "../backends/index.ts";
+import { uploadPayload, uploadMachinePayload } from "./sync.ts";
+import { classifyFile, getFileStatuses } from "./status.ts";
+
+const spinner = { text: "" } as Ora;
+
+describe("classifyFile", () => {
+  test("in sync when local matches remote", () => {
+    expect(classifyFile("a", "a", undefined)).toBe("in-sync");
+    expect(classifyFile("a", "a", "old")).toBe("in-sync");
+  });
+
+  test("tells which side changed since the last save/restore", () => {
+    expect(classifyFile("new", "base", "base")).toBe("local-modified");
+    expect(classifyFile("base", "new", "base")).toBe("remote-modified");
+    expect(classifyFile("l", "r", "base")).toBe("conflicted");
+    expect(classifyFile("l", "r", undefined)).toBe("conflicted");
+  });
+
+  test("reports files present on one side only", () => {
+    expect(classifyFile("a", undefined, undefined)).toBe("local-only");
+    expect(classifyFile(undefined, "a", "a")).toBe("remote-only");
+    expect(classifyFile(undefined, undefined, undefined)).toBe("missing");
+  });
+});
+
+describe("getFileStatuses", () => {
+  let dir: string;
+  const originalHome = process.env.HOME;
+  const files: ManagedFile[] = [{ path: "a.txt" }, { path: "b.txt" }, { path: "c.txt" }, { path: "m.txt", machine: true }];
+  const statuses = async () =>
+    (await getFileStatuses("repo", "laptop", files, (p) => resolve(dir, p))).map((e) => [e.path, e.status]);
+
+  beforeEach(async () => {
+    dir = await mkdtemp(resolve(tmpdir(), "bwrss-status-"));
+    process.env.HOME = dir;
+    setBackend(createLocalBackend(resolve(dir, "store"), "test"));
+  });
+
+  afterEach(async () => {
+    setBackend(undefined);
+    process.env.HOME = originalHome;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("compares local files with the shared and machine items", async () => {
+    await uploadPayload("repo", [{ path: "a.txt", content: "a" }, { path: "b.txt", content: "b" }], spinner);
+    await uploadMachinePayload("repo", "laptop", [{ path: "m.txt", content: "m" }], spinner);
+    await writeFile(resolve(dir, "a.txt"), "a");
+    await writeFile(resolve(dir, "m.txt"), "changed");
+
+    expect(await statuses()).toEqual([
+      ["a.txt", "in-sync"],
+      ["b.txt", "remote-only"],
+      ["c.txt", "missing"],
+      ["m.txt", "local-modified"],
+    ]);
+  });
+
+  test("tells remote changes from conflicts using the recorded state", async () => {
+    await uploadPayload("repo", [{ path: "a.txt", content: "a" }, { path: "b.txt", content: "b" }], spinner);
+    // Saved from another machine without this one seeing it
+    await uploadPayload("repo", [{ path: "a.txt", content: "a2" }, { path: "b.txt", content: "b2" }], spinner, { force: true, record: false });
+    await writeFile(resolve(dir, "a.txt"), "a");
+    await writeFile(resolve(dir, "b.txt"), "local b");
+    await writeFile(resolve(dir, "c.txt"), "c");
+
+    expect(await statuses()).toEqual([
+      ["a.txt", "remote-modified"],
+      ["b.txt", "conflicted"],
+      ["c.txt", "local-only"],
+      ["m.txt", "missing"],
+    ]);
+  });
+});
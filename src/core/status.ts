@@ -0,0 +1,53 @@
+import { access } from "node:fs/promises";
+import type { FileSyncStatus, ManagedFile } from "../types/index.ts";
+import { fetchItemHashes, type FetchOptions } from "./sync.ts";
+import { readFilePayload } from "./files.ts";
+import { hashFilePayload } from "./storage.ts";
+
+export interface FileStatusEntry {
+  path: string;
+  status: FileSyncStatus;
+}
+
+/**
+ * Classify a file from its local, remote and last-synced content hashes.
+ */
+export function classifyFile(local?: string, remote?: string, synced?: string): FileSyncStatus {
+  if (!local && !remote) return "missing";
+  if (!remote) return "local-only";
+  if (!local) return "remote-only";
+  if (local === remote) return "in-sync";
+  if (local === synced) return "remote-modified";
+  if (remote === synced) return "local-modified";
+  return "conflicted";
+}
+
+/**
+ * Compute the sync status of each managed file.
+ * `resolvePath` maps a managed path to its absolute location on disk.
+ */
+export async function getFileStatuses(
+  canonicalName: string,
+  machineName: string | undefined,
+  files: ManagedFile[],
+  resolvePath: (path: string) => string,
+  options: Pick<FetchOptions, "encryption" | "target"> = {},
+): Promise<FileStatusEntry[]> {
+  const shared = await fetchItemHashes(canonicalName, undefined, options);
+  const machine = machineName ? await fetchItemHashes(canonicalName, machineName, options) : null;
+
+  const entries: FileStatusEntry[] = [];
+  for (const managedFile of files) {
+    const hashes = managedFile.machine ? machine : shared;
+    const filePath = resolvePath(managedFile.path);
+    const exists = await access(filePath).then(() => true, () => false);
+    const templatePath = managedFile.template && resolvePath(managedFile.template);
+    const local = exists ? hashFilePayload(await readFilePayload(filePath, managedFile, templatePath)) : undefined;
+
+    entries.push({
+      path: managedFile.path,
+      status: classifyFile(local, hashes?.remote?.[managedFile.path], hashes?.synced[managedFile.path]),
+    });
+  }
+  return entries;
+}
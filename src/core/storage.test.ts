@@ -0,0 +1,80 @@
+import { describe, test, expect } from "bun:test";
+import {
+  buildPayload,
+  computeIntegrity,
+  hashFilePayload,
+  verifyPayload,
+  compressPayload,
+  decompressPayload,
+  splitAttachments,
+  COMPRESSION_THRESHOLD,
+  CHUNK_SIZE,
+} from "./storage.ts";
+
+const files = [{ path: ".env", keys: { A: "1" } }, { path: "config.json", content: "{}" }];
+const payload = buildPayload("repo", files, "2024-01-01T00:00:00.000Z");
+
+describe("verifyPayload", () => {
+  test("accepts an untouched payload", () => {
+    const parsed = verifyPayload(payload, "bwrss:repo", computeIntegrity(payload));
+    expect(parsed.files.map((f) => f.path)).toEqual([".env", "config.json"]);
+  });
+
+  test("rejects a payload that does not match its digest", () => {
+    const tampered = payload.replace('"A": "1"', '"A": "2"');
+    expect(() => verifyPayload(tampered, "bwrss:repo", computeIntegrity(payload))).toThrow("SHA-256 digest");
+  });
+
+  test("names the file whose content was changed", () => {
+    const tampered = payload.replace('"A": "1"', '"A": "2"');
+    expect(() => verifyPayload(tampered, "bwrss:repo", {})).toThrow(".env in bwrss:repo");
+  });
+
+  test("checks file digests recorded in the metadata", () => {
+    const fileDigests = { "config.json": hashFilePayload({ path: "config.json", content: "[]" }) };
+    expect(() => verifyPayload(payload, "bwrss:repo", { fileDigests })).toThrow("config.json in bwrss:repo");
+  });
+
+  test("requires a matching HMAC when a key is configured", () => {
+    const key = Buffer.from("secret");
+    expect(() => verifyPayload(payload, "bwrss:repo", computeIntegrity(payload), key)).toThrow("not signed");
+    expect(() => verifyPayload(payload, "bwrss:repo", computeIntegrity(payload, Buffer.from("other")), key)).toThrow("HMAC");
+    expect(() => verifyPayload(payload, "bwrss:repo", computeIntegrity(payload, key), key)).not.toThrow();
+  });
+
+  test("rejects structurally invalid payloads", () => {
+    expect(() => verifyPayload("{", "bwrss:repo", {})).toThrow("not valid JSON");
+    expect(() => verifyPayload('{"files":[{"path":"a"}]}', "bwrss:repo", {})).toThrow("either 'content' or 'keys'");
+  });
+});
+
+describe("compression and chunking", () => {
+  test("leaves small payloads alone", async () => {
+    const { data, compression } = await compressPayload(payload);
+    expect(compression).toBeUndefined();
+    expect(splitAttachments("bwrss-data.json", data, compression)).toEqual([{ name: "bwrss-data.json", data }]);
+  });
+
+  test("gzips large payloads and round-trips them", async () => {
+    const large = buildPayload("repo", [{ path: "big.txt", content: "x".repeat(COMPRESSION_THRESHOLD + 1) }]);
+    const { data, compression } = await compressPayload(large);
+    expect(compression).toBe("gzip");
+    expect(data.length).toBeLessThan(large.length);
+    expect(await decompressPayload(data, compression, "bwrss:repo")).toBe(large);
+  });
+
+  test("rejects corrupted compressed data", async () => {
+    await expect(decompressPayload(Buffer.from("nope"), "gzip", "bwrss:repo")).rejects.toThrow("cannot be decompressed");
+  });
+
+  test("splits compressed data into numbered chunks", () => {
+    const data = Buffer.alloc(CHUNK_SIZE * 2 + 1);
+    const chunks = splitAttachments("bwrss-history-3.json", data, "gzip");
+    expect(chunks.map((c) => c.name)).toEqual([
+      "bwrss-history-3.0.json.gz",
+      "bwrss-history-3.1.json.gz",
+      "bwrss-history-3.2.json.gz",
+    ]);
+    expect(Buffer.concat(chunks.map((c) => c.data)).equals(data)).toBe(true);
+  });
+});
@@ -1,38 +1,258 @@
-import type { BwrssMetadata, BwrssPayload, FilePayload } from "../types/index.ts";
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { gzip, gunzip } from "node:zlib";
+import { promisify } from "node:util";
+import type {
+  BwrssMetadata,
+  BwrssPayload,
+  FilePayload,
+  PayloadCompression,
+  PayloadEncryption,
+  PayloadGeneration,
+  PayloadIntegrity,
+} from "../types/index.ts";
+import { IntegrityError } from "../util/errors.ts";
 
 const ATTACHMENT_FILENAME = "bwrss-data.json";
 
+/** Payloads larger than this (bytes of JSON) are gzipped and stored in chunks */
+export const COMPRESSION_THRESHOLD = 256 * 1024;
+
+/** Maximum size of one chunk attachment (bytes) */
+export const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
 /**
  * Build the metadata JSON to store in the secure note's `notes` field.
  */
-export function buildMetadata(name: string, files: FilePayload[]): string {
+export function buildMetadata(
+  name: string,
+  files: FilePayload[],
+  options: {
+    timestamp?: string;
+    generation?: number;
+    history?: PayloadGeneration[];
+    integrity?: PayloadIntegrity;
+    encryption?: PayloadEncryption;
+    compression?: PayloadCompression;
+    chunks?: string[];
+    keyFields?: string[];
+  } = {},
+): string {
   const meta: BwrssMetadata = {
     version: 1,
     name,
-    timestamp: new Date().toISOString(),
+    timestamp: options.timestamp ?? new Date().toISOString(),
     files: files.map((f) => f.path),
+    ...(options.generation !== undefined ? { generation: options.generation } : {}),
+    ...(options.history && options.history.length > 0 ? { history: options.history } : {}),
+    // Plain digests of encrypted secrets would let anyone with vault access test guesses
+    ...(options.encryption
+      ? { encryption: options.encryption }
+      : { digests: Object.fromEntries(files.map((f) => [f.path, hashFilePayload(f)])) }),
+    ...(options.compression ? { compression: options.compression } : {}),
+    ...(options.chunks ? { chunks: options.chunks } : {}),
+    ...(options.keyFields && options.keyFields.length > 0 ? { keyFields: options.keyFields } : {}),
+    ...options.integrity,
   };
   return JSON.stringify(meta, null, 2);
 }
 
 /**
  * Build the full payload JSON to store as an attachment.
+ * Each file carries the SHA-256 of its secret data.
  */
-export function buildPayload(name: string, files: FilePayload[]): string {
+export function buildPayload(name: string, files: FilePayload[], timestamp?: string): string {
   const payload: BwrssPayload = {
     version: 1,
     name,
-    timestamp: new Date().toISOString(),
-    files,
+    timestamp: timestamp ?? new Date().toISOString(),
+    files: files.map((f) => ({ ...f, sha256: hashFilePayload(f) })),
   };
   return JSON.stringify(payload, null, 2);
 }
 
 /**
- * Parse a payload JSON string.
+ * Gzip a payload JSON string if it is larger than COMPRESSION_THRESHOLD.
+ */
+export async function compressPayload(json: string): Promise<{ data: Buffer; compression?: PayloadCompression }> {
+  const data = Buffer.from(json, "utf-8");
+  if (data.length <= COMPRESSION_THRESHOLD) return { data };
+  return { data: await gzipAsync(data), compression: "gzip" };
+}
+
+/**
+ * Undo `compressPayload`. Throws IntegrityError if the data is not valid gzip.
+ */
+export async function decompressPayload(data: Buffer, compression: PayloadCompression | undefined, source: string): Promise<string> {
+  if (!compression) return data.toString("utf-8");
+  if (compression !== "gzip") {
+    throw new IntegrityError(`${source} uses unsupported compression "${compression}". Upgrade bwrss.`);
+  }
+  try {
+    return (await gunzipAsync(data)).toString("utf-8");
+  } catch {
+    throw new IntegrityError(`Corrupted ${source}: compressed data cannot be decompressed.`);
+  }
+}
+
+/**
+ * Attachment names for a payload stored as `count` chunks, derived from its
+ * single-attachment name: `bwrss-data.json` → `bwrss-data.0.json.gz`, ...
+ */
+export function chunkAttachmentNames(fileName: string, count: number): string[] {
+  const base = fileName.replace(/\.json$/, "");
+  return Array.from({ length: count }, (_, i) => `${base}.${i}.json.gz`);
+}
+
+/**
+ * Split compressed payload data into CHUNK_SIZE attachments.
+ * Uncompressed payloads stay a single attachment named `fileName`.
+ */
+export function splitAttachments(
+  fileName: string,
+  data: Buffer,
+  compression: PayloadCompression | undefined,
+): { name: string; data: Buffer }[] {
+  if (!compression) return [{ name: fileName, data }];
+  const parts: Buffer[] = [];
+  for (let offset = 0; offset < data.length || parts.length === 0; offset += CHUNK_SIZE) {
+    parts.push(data.subarray(offset, offset + CHUNK_SIZE));
+  }
+  const names = chunkAttachmentNames(fileName, parts.length);
+  return parts.map((part, i) => ({ name: names[i]!, data: part }));
+}
+
+/**
+ * Compute the integrity data for stored attachment data: its SHA-256 and,
+ * if a key is given, its HMAC-SHA256.
+ */
+export function computeIntegrity(data: string | Buffer, key?: Buffer): PayloadIntegrity {
+  return {
+    digest: createHash("sha256").update(data).digest("hex"),
+    ...(key ? { hmac: createHmac("sha256", key).update(data).digest("hex") } : {}),
+  };
+}
+
+/**
+ * Parse the metadata JSON from a secure note's `notes` field.
+ * Returns null if the notes are missing or not bwrss metadata.
  */
-export function parsePayload(json: string): BwrssPayload {
-  return JSON.parse(json);
+export function parseMetadata(notes: string | undefined): BwrssMetadata | null {
+  if (!notes) return null;
+  try {
+    const meta = JSON.parse(notes);
+    if (!meta || typeof meta !== "object" || typeof meta.timestamp !== "string") return null;
+    return meta;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SHA-256 (hex) of a file payload's secret data: the decoded bytes of a full
+ * file, or the sorted key-value pairs of a partial file. Mode is not included.
+ */
+export function hashFilePayload(file: FilePayload): string {
+  const hash = createHash("sha256");
+  if (file.content !== undefined) {
+    hash.update(Buffer.from(file.content, file.encoding === "base64" ? "base64" : "utf-8"));
+  } else {
+    const sorted = Object.entries(file.keys ?? {}).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    hash.update(JSON.stringify(sorted));
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Attachment filename for a previous payload generation.
+ */
+export function historyAttachmentName(generation: number): string {
+  return `bwrss-history-${generation}.json`;
+}
+
+/**
+ * Parse a payload JSON string, checking its structure.
+ * Throws IntegrityError if it is not a valid payload.
+ */
+export function parsePayload(json: string, source = "payload"): BwrssPayload {
+  let payload: BwrssPayload;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new IntegrityError(`Corrupted ${source}: not valid JSON.`);
+  }
+  if (!payload || typeof payload !== "object" || !Array.isArray(payload.files)) {
+    throw new IntegrityError(`Corrupted ${source}: missing 'files' list.`);
+  }
+  for (const file of payload.files) {
+    if (!file || typeof file !== "object" || typeof file.path !== "string") {
+      throw new IntegrityError(`Corrupted ${source}: each file must have a 'path' string.`);
+    }
+    const hasContent = typeof file.content === "string";
+    const hasKeys = !!file.keys && typeof file.keys === "object" && !Array.isArray(file.keys);
+    if (hasContent === hasKeys) {
+      throw new IntegrityError(`Corrupted ${source}: ${file.path} must have either 'content' or 'keys'.`);
+    }
+  }
+  return payload;
+}
+
+/**
+ * Verify stored attachment data against its recorded integrity data.
+ * - it must match `expected.digest` (when recorded)
+ * - with `key`, it must carry a matching `expected.hmac`
+ * Throws IntegrityError if either check fails.
+ */
+export function verifyAttachment(data: string | Buffer, source: string, expected: PayloadIntegrity, key?: Buffer): void {
+  const actual = computeIntegrity(data, key);
+
+  if (expected.digest && expected.digest !== actual.digest) {
+    throw new IntegrityError(`Integrity check failed for ${source}: payload does not match its SHA-256 digest.`);
+  }
+  if (key) {
+    if (!expected.hmac) {
+      throw new IntegrityError(`Integrity check failed for ${source}: payload is not signed with an integrity key.`);
+    }
+    if (!safeEqualHex(expected.hmac, actual.hmac!)) {
+      throw new IntegrityError(`Integrity check failed for ${source}: HMAC signature does not match (tampered, or a different key).`);
+    }
+  }
+}
+
+/**
+ * Parse a payload and verify it against its recorded integrity data:
+ * the attachment checks of `verifyAttachment`, then every file must match
+ * its own `sha256` and `fileDigests[path]` (when recorded).
+ * Throws IntegrityError naming the file or payload that failed.
+ */
+export function verifyPayload(
+  json: string,
+  source: string,
+  expected: PayloadIntegrity & { fileDigests?: Record<string, string> },
+  key?: Buffer,
+): BwrssPayload {
+  verifyAttachment(json, source, expected, key);
+
+  const payload = parsePayload(json, source);
+  for (const file of payload.files) {
+    const sha256 = hashFilePayload(file);
+    if (file.sha256 && file.sha256 !== sha256) {
+      throw new IntegrityError(`Integrity check failed for ${file.path} in ${source}: content does not match its SHA-256 digest.`);
+    }
+    const listed = expected.fileDigests?.[file.path];
+    if (listed && listed !== sha256) {
+      throw new IntegrityError(`Integrity check failed for ${file.path} in ${source}: content does not match the digest in the item metadata.`);
+    }
+  }
+  return payload;
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const bufA = Buffer.from(a, "hex");
+  const bufB = Buffer.from(b, "hex");
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
 }
 
 /**
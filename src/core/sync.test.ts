@@ -0,0 +1,407 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import type { Ora } from "ora";
+import type { FilePayload } from "../types/index.ts";
+import { createLocalBackend, getBackend, setBackend } from "../backends/index.ts";
+import { uploadPayload, fetchPayload, fetchItemHashes, findBwrssItem, listGenerations, resolvePointInTime, mergeConcurrent, updateStoredFile, uploadMachinePayload, listStoredItems, discoverMachines, findStoredName, renameStoredRepo, resolveStoredName, adoptStoredName, fetchMachinePayload, recordFetched, type FetchedGeneration } from "./sync.ts";
+import { writeState, getSeenTimestamp } from "./state.ts";
+import { writeMachineConfig } from "./machine-config.ts";
+
+const spinner = { text: "" } as Ora;
+
+/** Fetch a payload and record it as seen, like a restore that wrote every file. */
+async function restorePayload(name: string): Promise<FilePayload[] | null> {
+  const fetched: FetchedGeneration[] = [];
+  const files = await fetchPayload(name, { fetched });
+  await recordFetched(fetched);
+  return files;
+}
+
+let dir: string;
+const originalHome = process.env.HOME;
+
+beforeEach(async () => {
+  dir = await mkdtemp(resolve(tmpdir(), "bwrss-sync-"));
+  process.env.HOME = dir;
+  setBackend(createLocalBackend(resolve(dir, "store"), "test"));
+});
+
+afterEach(async () => {
+  setBackend(undefined);
+  process.env.HOME = originalHome;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("payload history", () => {
+  test("keeps previous generations and restores them", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    await uploadPayload("repo", [{ path: ".env", content: "" }], spinner);
+
+    const generations = await listGenerations("repo");
+    expect(generations?.map((g) => g.generation)).toEqual([2, 1]);
+
+    expect(await fetchPayload("repo")).toEqual([{ path: ".env", content: "" }]);
+
+    const at = await resolvePointInTime("repo", undefined, "1");
+    expect(await fetchPayload("repo", { at })).toEqual([{ path: ".env", content: "A=1\n" }]);
+  });
+
+  test("returns null for a time before the first save", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    expect(await fetchPayload("repo", { at: "2000-01-01T00:00:00.000Z" })).toBeNull();
+  });
+
+  test("rejects unknown generations", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    await expect(resolvePointInTime("repo", undefined, "7")).rejects.toThrow("No generation 7");
+  });
+});
+
+describe("concurrent saves", () => {
+  test("refuses to overwrite a payload changed elsewhere", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    // Another machine saved since: forget what we saw
+    await writeState({ version: 1, items: { "bwrss:repo": { timestamp: "2000-01-01T00:00:00.000Z" } } });
+
+    await expect(uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner)).rejects.toThrow("changed remotely");
+    await uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner, { force: true });
+    expect(await fetchPayload("repo")).toEqual([{ path: ".env", content: "A=2\n" }]);
+  });
+
+  test("refuses to overwrite an item never seen on this machine", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    await writeState({ version: 1, items: {} });
+    await expect(uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner)).rejects.toThrow("never saved or restored");
+  });
+
+  test("saves again after a restore", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    await writeState({ version: 1, items: {} });
+    await restorePayload("repo");
+    await uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner);
+  });
+
+  test("doesn't record a fetch until its files are written", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    await writeState({ version: 1, items: {} });
+    const fetched: FetchedGeneration[] = [];
+    await fetchPayload("repo", { fetched });
+    await expect(uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner)).rejects.toThrow("never saved or restored");
+
+    await recordFetched(fetched);
+    await uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner);
+  });
+
+  test("merges key-level changes with --merge", async () => {
+    await uploadPayload("repo", [{ path: ".env", keys: { A: "1", B: "1" } }], spinner);
+    const seen = (await listGenerations("repo"))![0]!.timestamp;
+
+    // Teammate changes B
+    await uploadPayload("repo", [{ path: ".env", keys: { A: "1", B: "2" } }], spinner);
+    await writeState({ version: 1, items: { "bwrss:repo": { timestamp: seen } } });
+
+    // We change A
+    await uploadPayload("repo", [{ path: ".env", keys: { A: "9", B: "1" } }], spinner, { merge: true });
+    expect(await fetchPayload("repo")).toEqual([{ path: ".env", keys: { A: "9", B: "2" } }]);
+  });
+});
+
+describe("updateStoredFile", () => {
+  const setB = (file: FilePayload | undefined): FilePayload => ({ path: ".env", keys: { ...file?.keys, B: "2" } });
+
+  test("changes one file even if this machine is behind, leaving its state alone", async () => {
+    await uploadPayload("repo", [{ path: ".env", keys: { A: "1" } }, { path: "c.json", content: "{}" }], spinner);
+    await writeState({ version: 1, items: { "bwrss:repo": { timestamp: "2000-01-01T00:00:00.000Z" } } });
+
+    await updateStoredFile("repo", undefined, ".env", setB, spinner);
+    expect(await fetchPayload("repo")).toEqual([{ path: ".env", keys: { A: "1", B: "2" } }, { path: "c.json", content: "{}" }]);
+    expect(await getSeenTimestamp({ backend: "local", name: "bwrss:repo" })).toBe("2000-01-01T00:00:00.000Z");
+  });
+
+  test("advances a current state only when recording", async () => {
+    await uploadPayload("repo", [{ path: ".env", keys: { A: "1" } }], spinner);
+    await updateStoredFile("repo", undefined, ".env", setB, spinner, { record: false });
+    await expect(uploadPayload("repo", [{ path: ".env", keys: { A: "1" } }], spinner)).rejects.toThrow("changed remotely");
+
+    await restorePayload("repo");
+    await updateStoredFile("repo", undefined, ".env", setB, spinner);
+    await uploadPayload("repo", [{ path: ".env", keys: { A: "1", B: "2" } }], spinner);
+  });
+
+  test("creates the item if needed", async () => {
+    await updateStoredFile("repo", undefined, ".env", setB, spinner);
+    expect(await fetchPayload("repo")).toEqual([{ path: ".env", keys: { B: "2" } }]);
+  });
+});
+
+describe("listStoredItems", () => {
+  test("lists shared and machine items with their metadata", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }, { path: "b.json", content: "{}" }], spinner);
+    await uploadMachinePayload("repo", "laptop", [{ path: ".env.local", content: "B=1\n" }], spinner);
+    await uploadMachinePayload("home", "desktop", [{ path: ".npmrc", content: "x" }], spinner);
+
+    const items = await listStoredItems();
+    expect(items.map((i) => [i.item, i.name, i.machine, i.files])).toEqual([
+      ["bwrss:home@desktop", "home", "desktop", [".npmrc"]],
+      ["bwrss:repo", "repo", undefined, [".env", "b.json"]],
+      ["bwrss:repo@laptop", "repo", "laptop", [".env.local"]],
+    ]);
+    expect(items[1]!.size).toBeGreaterThan(0);
+    expect(items[1]!.encrypted).toBe(false);
+    expect((await discoverMachines()).map((m) => m.name)).toEqual(["desktop", "laptop"]);
+  });
+});
+
+describe("renamed repos", () => {
+  test("findStoredName picks the first name with items", async () => {
+    await uploadMachinePayload("old", "laptop", [{ path: ".env", content: "A=1\n" }], spinner);
+    expect(await findStoredName(["new", "older", "old"], "laptop")).toBe("old");
+    expect(await findStoredName(["new", "older", "old"], undefined)).toBeUndefined();
+  });
+
+  test("renameStoredRepo moves shared and machine items with their state", async () => {
+    await uploadPayload("old", [{ path: ".env", content: "A=1\n" }], spinner);
+    await uploadMachinePayload("old", "laptop", [{ path: ".env.local", content: "B=1\n" }], spinner);
+
+    expect(await renameStoredRepo("old", "new", spinner)).toBe(2);
+    expect((await listStoredItems()).map((i) => i.item)).toEqual(["bwrss:new", "bwrss:new@laptop"]);
+    expect(await fetchMachinePayload("new", "laptop")).toEqual([{ path: ".env.local", content: "B=1\n" }]);
+    await uploadPayload("new", [{ path: ".env", content: "A=2\n" }], spinner);
+  });
+
+  test("resolveStoredName falls back to an alias with items", async () => {
+    const config = { version: 1, name: "new", aliases: ["old"], files: [] };
+    expect(await resolveStoredName(dir, config, "new")).toBe("new");
+    await uploadPayload("old", [{ path: ".env", content: "A=1\n" }], spinner);
+    expect(await resolveStoredName(dir, config, "new")).toBe("old");
+    await uploadPayload("new", [{ path: ".env", content: "A=2\n" }], spinner);
+    expect(await resolveStoredName(dir, config, "new")).toBe("new");
+  });
+
+  test("adoptStoredName moves items from an alias before a write", async () => {
+    const config = { version: 1, name: "new", aliases: ["old"], files: [] };
+    await uploadPayload("old", [{ path: ".env", content: "A=1\n" }], spinner);
+    expect(await adoptStoredName(dir, config, "new", undefined, spinner)).toBe("old");
+    expect((await listStoredItems()).map((i) => i.item)).toEqual(["bwrss:new"]);
+    expect(await adoptStoredName(dir, config, "new", undefined, spinner)).toBeUndefined();
+  });
+
+  test("renameStoredRepo refuses to overwrite items", async () => {
+    await uploadPayload("old", [{ path: ".env", content: "A=1\n" }], spinner);
+    await uploadPayload("new", [{ path: ".env", content: "A=2\n" }], spinner);
+    await expect(renameStoredRepo("old", "new", spinner)).rejects.toThrow("bwrss:new already exist");
+    await expect(renameStoredRepo("gone", "new", spinner)).rejects.toThrow("Nothing stored for bwrss:gone");
+  });
+});
+
+describe("client-side encryption", () => {
+  const encryption = { passphraseEnv: "BWRSS_TEST_TEAM_KEY" };
+
+  afterEach(() => {
+    delete process.env.BWRSS_TEST_TEAM_KEY;
+  });
+
+  test("stores encrypted payloads and records the scheme", async () => {
+    process.env.BWRSS_TEST_TEAM_KEY = "team secret";
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner, { encryption });
+
+    const meta = JSON.parse((await findBwrssItem("repo"))!.notes!);
+    expect(meta.encryption.scheme).toBe("scrypt-aes-256-gcm");
+    expect(meta.digests).toBeUndefined();
+    expect(await fetchPayload("repo", { encryption })).toEqual([{ path: ".env", content: "A=1\n" }]);
+  });
+
+  test("needs the passphrase to restore", async () => {
+    process.env.BWRSS_TEST_TEAM_KEY = "team secret";
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner, { encryption });
+
+    await expect(fetchPayload("repo")).rejects.toThrow("is encrypted");
+    process.env.BWRSS_TEST_TEAM_KEY = "wrong";
+    await expect(fetchPayload("repo", { encryption })).rejects.toThrow("Cannot decrypt");
+  });
+
+  test("reads plain and encrypted generations side by side", async () => {
+    process.env.BWRSS_TEST_TEAM_KEY = "team secret";
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    await uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner, { encryption });
+
+    const at = await resolvePointInTime("repo", undefined, "1");
+    expect(await fetchPayload("repo", { at, encryption })).toEqual([{ path: ".env", content: "A=1\n" }]);
+    expect(await fetchPayload("repo", { encryption })).toEqual([{ path: ".env", content: "A=2\n" }]);
+  });
+});
+
+describe("large payloads", () => {
+  const big = (seed: string) => Array.from({ length: 40_000 }, (_, i) => `${seed}${i * 7919}`).join("\n");
+
+  test("are stored compressed in chunks and restored intact", async () => {
+    await uploadPayload("repo", [{ path: "bundle.pem", content: big("a") }], spinner);
+
+    const item = (await findBwrssItem("repo"))!;
+    expect(item.attachments.map((a) => a.fileName)).toEqual(["bwrss-data-1.0.json.gz"]);
+    expect(JSON.parse(item.notes!).compression).toBe("gzip");
+    expect(await fetchPayload("repo")).toEqual([{ path: "bundle.pem", content: big("a") }]);
+  });
+
+  test("keep the previous payload if uploading a new one fails", async () => {
+    await uploadPayload("repo", [{ path: "bundle.pem", content: big("a") }], spinner);
+    const backend = await getBackend();
+    setBackend({
+      ...backend,
+      // History copies go through; the new payload's chunks don't
+      writeAttachment: async (item, fileName, content) => {
+        if (fileName.startsWith("bwrss-data-")) throw new Error("upload interrupted");
+        await backend.writeAttachment(item, fileName, content);
+      },
+    });
+
+    await expect(uploadPayload("repo", [{ path: "bundle.pem", content: big("b") }], spinner)).rejects.toThrow("upload interrupted");
+    setBackend(backend);
+    expect(await fetchPayload("repo")).toEqual([{ path: "bundle.pem", content: big("a") }]);
+  });
+
+  test("move to history and back to a single attachment", async () => {
+    await uploadPayload("repo", [{ path: "bundle.pem", content: big("a") }], spinner);
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+
+    const item = (await findBwrssItem("repo"))!;
+    expect(item.attachments.map((a) => a.fileName).sort()).toEqual(["bwrss-data.json", "bwrss-history-1.0.json.gz"]);
+
+    const at = await resolvePointInTime("repo", undefined, "1");
+    expect(await fetchPayload("repo", { at })).toEqual([{ path: "bundle.pem", content: big("a") }]);
+  });
+});
+
+describe("fields layout", () => {
+  test("stores payloads in hidden fields instead of attachments", async () => {
+    await writeMachineConfig({ layout: "fields", history: 1 });
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    await uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner);
+
+    const item = (await findBwrssItem("repo"))!;
+    expect(item.attachments).toEqual([]);
+    expect(item.fields?.map((f) => f.name).sort()).toEqual(["bwrss-data.json#0", "bwrss-history-1.json#0"]);
+    expect(await fetchPayload("repo")).toEqual([{ path: ".env", content: "A=2\n" }]);
+  });
+
+  test("is read back and cleaned up after switching layouts", async () => {
+    await writeMachineConfig({ layout: "fields" });
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner);
+    await writeMachineConfig({});
+    expect(await fetchPayload("repo")).toEqual([{ path: ".env", content: "A=1\n" }]);
+    await uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner);
+
+    const item = (await findBwrssItem("repo"))!;
+    expect(item.attachments.map((a) => a.fileName).sort()).toEqual(["bwrss-data.json", "bwrss-history-1.json"]);
+    expect(item.fields).toEqual([]);
+
+    const at = await resolvePointInTime("repo", undefined, "1");
+    expect(await fetchPayload("repo", { at })).toEqual([{ path: ".env", content: "A=1\n" }]);
+    expect(await fetchPayload("repo")).toEqual([{ path: ".env", content: "A=2\n" }]);
+  });
+});
+
+describe("organization targets", () => {
+  const target = { organization: "Team", collections: ["Secrets"] };
+
+  test("saves into the organization without touching a personal copy", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "personal\n" }], spinner);
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner, { target });
+    await uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner, { target });
+
+    const item = (await findBwrssItem("repo", target))!;
+    expect(item.organization).toBe("Team");
+    expect(JSON.parse(item.notes!).generation).toBe(2);
+    expect(await fetchPayload("repo", { target })).toEqual([{ path: ".env", content: "A=2\n" }]);
+    expect(await fetchPayload("repo")).toEqual([{ path: ".env", content: "personal\n" }]);
+  });
+
+  test("keeps separate sync state for personal and organization items", async () => {
+    await uploadPayload("repo", [{ path: ".env", content: "personal\n" }], spinner);
+    await uploadPayload("repo", [{ path: ".env", content: "A=1\n" }], spinner, { target });
+    await uploadPayload("repo", [{ path: ".env", content: "personal 2\n" }], spinner);
+
+    await uploadPayload("repo", [{ path: ".env", content: "A=2\n" }], spinner, { target, force: true, record: false });
+    await expect(uploadPayload("repo", [{ path: ".env", content: "A=3\n" }], spinner, { target })).rejects.toThrow("changed remotely");
+    await uploadPayload("repo", [{ path: ".env", content: "personal 3\n" }], spinner);
+  });
+});
+
+describe("key fields", () => {
+  const files = [{ path: ".env", keys: { A: "1", B: "2" } }, { path: "key.pem", content: "pem" }];
+
+  async function editField(name: string, value: string): Promise<void> {
+    const item = (await findBwrssItem("repo"))!;
+    const fields = item.fields!.map((f) => (f.name === name ? { name, value } : f));
+    await (await getBackend()).updateFields(item, fields);
+  }
+
+  test("stores partial keys as hidden fields and restores edits made in Bitwarden", async () => {
+    await uploadPayload("repo", files, spinner, { keyFields: true });
+
+    const item = (await findBwrssItem("repo"))!;
+    expect(item.fields).toEqual([{ name: ".env:A", value: "1" }, { name: ".env:B", value: "2" }]);
+    expect(item.attachments.map((a) => a.fileName)).toEqual(["bwrss-data.json"]);
+
+    await editField(".env:B", "edited");
+    const hashes = await fetchItemHashes("repo");
+    expect(hashes.remote![".env"]).not.toBe(hashes.synced[".env"]);
+    expect(hashes.remote!["key.pem"]).toBe(hashes.synced["key.pem"]);
+    expect(await restorePayload("repo")).toEqual([
+      { path: ".env", keys: { A: "1", B: "edited" } },
+      { path: "key.pem", content: "pem" },
+    ]);
+  });
+
+  test("treats edits made in Bitwarden as concurrent changes", async () => {
+    await uploadPayload("repo", files, spinner, { keyFields: true });
+    await editField(".env:B", "edited");
+
+    const local = [{ path: ".env", keys: { A: "9", B: "2" } }, { path: "key.pem", content: "pem" }];
+    await expect(uploadPayload("repo", local, spinner, { keyFields: true })).rejects.toThrow("were edited in bwrss:repo");
+    await uploadPayload("repo", local, spinner, { keyFields: true, merge: true });
+
+    expect((await findBwrssItem("repo"))!.fields).toEqual([{ name: ".env:A", value: "9" }, { name: ".env:B", value: "edited" }]);
+  });
+
+  test("removes the fields when turned off", async () => {
+    await uploadPayload("repo", files, spinner, { keyFields: true });
+    await uploadPayload("repo", files, spinner);
+    expect((await findBwrssItem("repo"))!.fields).toEqual([]);
+  });
+
+  test("can't be combined with encryption", async () => {
+    const options = { keyFields: true, encryption: { passphraseEnv: "BWRSS_TEST_TEAM_KEY" } };
+    await expect(uploadPayload("repo", files, spinner, options)).rejects.toThrow("can't be combined");
+  });
+});
+
+describe("mergeConcurrent", () => {
+  test("takes whichever side changed a key", () => {
+    const base = [{ path: ".env", keys: { A: "1", B: "1", C: "1" } }];
+    const remote = [{ path: ".env", keys: { A: "1", B: "2", C: "1", D: "4" } }];
+    const local = [{ path: ".env", keys: { A: "3", B: "1" } }];
+    expect(mergeConcurrent(base, remote, local)).toEqual([{ path: ".env", keys: { A: "3", B: "2", D: "4" } }]);
+  });
+
+  test("reports keys changed on both sides", () => {
+    const base = [{ path: ".env", keys: { A: "1" } }];
+    const remote = [{ path: ".env", keys: { A: "2" } }];
+    const local = [{ path: ".env", keys: { A: "3" } }];
+    expect(() => mergeConcurrent(base, remote, local)).toThrow(".env:A");
+  });
+
+  test("merges full files only when one side is unchanged", () => {
+    const base = [{ path: "a", content: "1" }, { path: "b", content: "1" }];
+    const remote = [{ path: "a", content: "2" }, { path: "b", content: "1" }, { path: "c", content: "new" }];
+    const local = [{ path: "a", content: "1" }, { path: "b", content: "3" }];
+    expect(mergeConcurrent(base, remote, local)).toEqual([
+      { path: "a", content: "2" },
+      { path: "b", content: "3" },
+      { path: "c", content: "new" },
+    ]);
+    expect(() => mergeConcurrent(null, remote, local)).toThrow("a, b");
+  });
+});
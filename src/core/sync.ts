@@ -1,14 +1,88 @@
+import { readFile } from "node:fs/promises";
 import type { Ora } from "ora";
-import type { BwrssConfig, FilePayload } from "../types/index.ts";
+import type {
+  BwrssConfig,
+  EncryptionConfig,
+  FilePayload,
+  ItemTarget,
+  MachineInfo,
+  RemoteItemInfo,
+  PayloadEncryption,
+  PayloadGeneration,
+  StoredItem,
+} from "../types/index.ts";
+import { getBackend } from "../backends/index.ts";
+import { readMachineConfig } from "./machine-config.ts";
 import {
-  findBwrssItem,
-  findBwrssItemForMachine,
-  createSecureNote,
-  updateItemNotes,
-  setAttachment,
-  getAttachment,
-} from "./bitwarden.ts";
-import { buildMetadata, buildPayload, parsePayload, ATTACHMENT_FILENAME } from "./storage.ts";
+  buildMetadata,
+  buildPayload,
+  parseMetadata,
+  verifyAttachment,
+  verifyPayload,
+  computeIntegrity,
+  historyAttachmentName,
+  chunkAttachmentNames,
+  splitAttachments,
+  compressPayload,
+  decompressPayload,
+  hashFilePayload,
+  ATTACHMENT_FILENAME,
+} from "./storage.ts";
+import { getItemState, recordSeen, renameItemState, forgetItemState, type ItemStateRef } from "./state.ts";
+import { readBlob, writeBlobs, deleteBlobs, blobSize } from "./layout.ts";
+import { applyKeyFields, buildKeyFields, hashKeyFields, replaceKeyFields } from "./key-fields.ts";
+import { readEncryptionPassphrase, encryptPayload, decryptPayload, DEFAULT_PASSPHRASE_ENV } from "./encryption.ts";
+import { expandHomePath } from "./home.ts";
+import { getPreviousNames } from "./repo.ts";
+import { itemTarget } from "./config.ts";
+import { StorageError, ConflictError, ConfigError, IntegrityError, EncryptionError } from "../util/errors.ts";
+
+/** Number of previous payload generations kept per item unless configured */
+const DEFAULT_HISTORY_SIZE = 5;
+
+export interface UploadOptions {
+  /** Overwrite the remote payload even if it changed since this machine last saw it */
+  force?: boolean;
+  /** Merge concurrent remote changes instead of refusing to save */
+  merge?: boolean;
+  /** Repo/home encryption config — falls back to the machine config's */
+  encryption?: EncryptionConfig;
+  /** Organization and collections to keep the item in (personal vault if absent) */
+  target?: ItemTarget;
+  /** Also store each key of partial files as a hidden custom field (`<path>:<key>`) */
+  keyFields?: boolean;
+  /**
+   * Timestamp of the remote payload the changes were made to, checked instead
+   * of the one this machine last saw. The machine's state then only advances
+   * if it was current.
+   */
+  basedOn?: string;
+  /** Record the saved payload as seen by this machine (default true) */
+  record?: boolean;
+}
+
+export interface FetchOptions {
+  /** ISO timestamp — fetch the newest generation saved at or before this time */
+  at?: string;
+  /**
+   * Collects the fetched generation, to be recorded as seen by this machine
+   * with `recordFetched` once its files are written (used by restore)
+   */
+  fetched?: FetchedGeneration[];
+  /** Repo/home encryption config — falls back to the machine config's */
+  encryption?: EncryptionConfig;
+  /** Organization and collections the item lives in (personal vault if absent) */
+  target?: ItemTarget;
+}
+
+/**
+ * The remote generation a payload was fetched from and its file hashes.
+ */
+export interface FetchedGeneration {
+  ref: ItemStateRef;
+  timestamp: string;
+  files: Record<string, string>;
+}
 
 /**
  * Split file payloads into shared and machine-specific groups.
@@ -61,29 +135,178 @@ export function mergePayloads(shared: FilePayload[], machine: FilePayload[]): Fi
 }
 
 /**
- * Upload a payload to a Bitwarden secure note (find-or-create).
+ * Verify the storage backend is ready (vault unlocked and synced, or local
+ * store passphrase correct). Call once before uploading or fetching.
  */
-export async function uploadPayload(
-  itemName: string,
+export async function prepareStorage(): Promise<void> {
+  const backend = await getBackend();
+  await backend.prepare();
+}
+
+/**
+ * Item name for a shared (`bwrss:<name>`) or machine-specific (`bwrss:<name>@<machine>`) payload.
+ */
+export function itemName(canonicalName: string, machineName?: string): string {
+  return machineName ? `bwrss:${canonicalName}@${machineName}` : `bwrss:${canonicalName}`;
+}
+
+/**
+ * Find a bwrss item by canonical name.
+ */
+export async function findBwrssItem(canonicalName: string, target?: ItemTarget): Promise<StoredItem | null> {
+  const backend = await getBackend();
+  return backend.findItem(itemName(canonicalName), target);
+}
+
+/**
+ * Find a machine-specific bwrss item: `bwrss:<name>@<machine>`.
+ */
+export async function findBwrssItemForMachine(
   canonicalName: string,
-  payloads: FilePayload[],
+  machineName: string,
+  target?: ItemTarget,
+): Promise<StoredItem | null> {
+  const backend = await getBackend();
+  return backend.findItem(itemName(canonicalName, machineName), target);
+}
+
+/**
+ * List all `bwrss:*` items, shared and machine-specific, with the details
+ * of their current payload from the item metadata. Sorted by item name.
+ */
+export async function listStoredItems(): Promise<RemoteItemInfo[]> {
+  const backend = await getBackend();
+  const items = await backend.listItems("bwrss:");
+
+  return items
+    .filter((item) => item.name.startsWith("bwrss:"))
+    .map((item) => {
+      const meta = parseMetadata(item.notes);
+      const fullName = item.name.slice("bwrss:".length);
+      const atIdx = fullName.indexOf("@");
+      const current = itemGenerations(item)[0]!;
+      return {
+        id: item.id,
+        item: item.name,
+        name: atIdx === -1 ? fullName : fullName.slice(0, atIdx),
+        ...(atIdx === -1 ? {} : { machine: fullName.slice(atIdx + 1) }),
+        lastSave: meta?.timestamp ?? "",
+        files: meta?.files ?? [],
+        size: generationAttachments(current).reduce((sum, name) => sum + blobSize(item, name), 0),
+        encrypted: Boolean(meta?.encryption),
+        ...(item.organization ? { organization: item.organization } : {}),
+      };
+    })
+    .sort((a, b) => a.item.localeCompare(b.item));
+}
+
+/**
+ * The first of `names` (a canonical name and its aliases) that has a shared
+ * item or, given a machine, an item for that machine. Undefined if none has.
+ */
+export async function findStoredName(
+  names: string[],
+  machineName: string | undefined,
+  target?: ItemTarget,
+): Promise<string | undefined> {
+  for (const name of names) {
+    if (await findBwrssItem(name, target)) return name;
+    if (machineName && await findBwrssItemForMachine(name, machineName, target)) return name;
+  }
+  return undefined;
+}
+
+/**
+ * The name a repo's items are stored under: `canonicalName`, or if nothing is
+ * stored under it, the first of its previous names (see `getPreviousNames`)
+ * that has items.
+ */
+export async function resolveStoredName(
+  repoRoot: string,
+  config: BwrssConfig,
+  canonicalName: string,
+  machineName?: string,
+): Promise<string> {
+  const previousNames = await getPreviousNames(repoRoot, config, canonicalName);
+  if (previousNames.length === 0) return canonicalName;
+  return await findStoredName([canonicalName, ...previousNames], machineName, itemTarget(config)) ?? canonicalName;
+}
+
+/**
+ * Before writing to a repo's items, move those stored under a previous name
+ * to `canonicalName`, so the write doesn't start a second set of items next
+ * to them. Returns the name they were moved from, if any.
+ */
+export async function adoptStoredName(
+  repoRoot: string,
+  config: BwrssConfig,
+  canonicalName: string,
+  machineName: string | undefined,
   spinner: Ora,
-): Promise<void> {
-  const metadata = buildMetadata(canonicalName, payloads);
-  const payload = buildPayload(canonicalName, payloads);
+): Promise<string | undefined> {
+  const storedName = await resolveStoredName(repoRoot, config, canonicalName, machineName);
+  if (storedName === canonicalName) return undefined;
+  await renameStoredRepo(storedName, canonicalName, spinner);
+  return storedName;
+}
 
-  let item = await findBwrssItem(canonicalName);
+/**
+ * Move the shared item of repo `from` and all its machine items to `to`,
+ * along with this machine's sync state. Returns the number of items moved.
+ */
+export async function renameStoredRepo(from: string, to: string, spinner: Ora): Promise<number> {
+  const all = await listStoredItems();
+  const items = all.filter((i) => i.name === from);
+  if (items.length === 0) {
+    throw new StorageError(`Nothing stored for ${itemName(from)}. Run 'bwrss list --remote' to see stored repos.`);
+  }
+  const taken = items.filter((i) => all.some((other) => other.name === to && other.machine === i.machine));
+  if (taken.length > 0) {
+    throw new ConflictError(
+      `${taken.map((i) => itemName(to, i.machine)).join(", ")} already exist. Delete them first, or restore and save under one name.`,
+    );
+  }
 
-  if (item) {
-    spinner.text = `Updating existing note ${itemName}...`;
-    item = await updateItemNotes(item, metadata);
-  } else {
-    spinner.text = `Creating new note ${itemName}...`;
-    item = await createSecureNote(itemName, metadata);
+  for (const item of items) {
+    const name = itemName(to, item.machine);
+    spinner.text = `Renaming ${item.item} to ${name}...`;
+    await renameStoredItem(item.id, name);
+  }
+  return items.length;
+}
+
+/**
+ * Discover all known machines from the `bwrss:*@*` items, with the last
+ * save timestamp of each.
+ */
+export async function discoverMachines(): Promise<MachineInfo[]> {
+  const machineMap = new Map<string, string>();
+
+  for (const item of await listStoredItems()) {
+    if (!item.machine) continue;
+
+    // Keep the most recent timestamp per machine
+    const existing = machineMap.get(item.machine);
+    if (!existing || item.lastSave > existing) {
+      machineMap.set(item.machine, item.lastSave);
+    }
   }
 
-  spinner.text = `Uploading attachment to ${itemName}...`;
-  await setAttachment(item.id, ATTACHMENT_FILENAME, payload);
+  return Array.from(machineMap.entries())
+    .map(([name, lastSave]) => ({ name, lastSave }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Upload a shared payload to `bwrss:<name>` (find-or-create).
+ */
+export async function uploadPayload(
+  canonicalName: string,
+  payloads: FilePayload[],
+  spinner: Ora,
+  options: UploadOptions = {},
+): Promise<void> {
+  await uploadToItem(itemName(canonicalName), canonicalName, payloads, spinner, options);
 }
 
 /**
@@ -94,38 +317,97 @@ export async function uploadMachinePayload(
   machineName: string,
   payloads: FilePayload[],
   spinner: Ora,
+  options: UploadOptions = {},
 ): Promise<void> {
-  const itemName = `bwrss:${canonicalName}@${machineName}`;
-  const metadata = buildMetadata(canonicalName, payloads);
-  const payload = buildPayload(canonicalName, payloads);
+  await uploadToItem(itemName(canonicalName, machineName), canonicalName, payloads, spinner, options);
+}
 
-  let item = await findBwrssItemForMachine(canonicalName, machineName);
+/**
+ * Change one file of an item's current payload and save the result as a new
+ * generation, without the local files. `update` gets the stored file (if any)
+ * and returns its new version. The item must not change in between.
+ */
+export async function updateStoredFile(
+  canonicalName: string,
+  machineName: string | undefined,
+  path: string,
+  update: (file: FilePayload | undefined) => FilePayload,
+  spinner: Ora,
+  options: UploadOptions = {},
+): Promise<FilePayload> {
+  let file: FilePayload | undefined;
+  await rewriteItem(canonicalName, machineName, (files) => {
+    file = update(files.find((f) => f.path === path));
+    return files.some((f) => f.path === path)
+      ? files.map((f) => (f.path === path ? file! : f))
+      : [...files, file];
+  }, spinner, options);
+  return file!;
+}
 
-  if (item) {
-    spinner.text = `Updating existing note ${itemName}...`;
-    item = await updateItemNotes(item, metadata);
-  } else {
-    spinner.text = `Creating new note ${itemName}...`;
-    item = await createSecureNote(itemName, metadata);
-  }
+/**
+ * Drop files from an item's current payload and save the result as a new
+ * generation. The item must not change in between.
+ */
+export async function removeStoredFiles(
+  canonicalName: string,
+  machineName: string | undefined,
+  paths: string[],
+  spinner: Ora,
+  options: UploadOptions = {},
+): Promise<void> {
+  await rewriteItem(canonicalName, machineName, (files) => files.filter((f) => !paths.includes(f.path)), spinner, options);
+}
 
-  spinner.text = `Uploading attachment to ${itemName}...`;
-  await setAttachment(item.id, ATTACHMENT_FILENAME, payload);
+/**
+ * Delete a bwrss item by ID, with its history and this machine's sync state.
+ * Does nothing if it's already gone.
+ */
+export async function deleteStoredItem(id: string): Promise<void> {
+  const backend = await getBackend();
+  const item = await findItemById(id);
+  if (!item) return;
+  await backend.deleteItem(item);
+  await forgetItemState(await stateRef(item));
 }
 
 /**
- * Fetch a shared payload from `bwrss:<name>`.
+ * Rename a bwrss item by ID, keeping its payload, history and this machine's
+ * sync state.
  */
-export async function fetchPayload(canonicalName: string): Promise<FilePayload[] | null> {
-  const item = await findBwrssItem(canonicalName);
-  if (!item) return null;
+export async function renameStoredItem(id: string, name: string): Promise<void> {
+  const backend = await getBackend();
+  const item = await findItemById(id);
+  if (!item) throw new StorageError(`Item ${id} not found.`);
+  const renamed = await backend.renameItem(item, name);
+  await renameItemState(await stateRef(item), await stateRef(renamed));
+}
+
+/**
+ * Copy a bwrss item by ID to a new item `name` in the same organization and
+ * collections, with its payload, history and fields.
+ */
+export async function copyStoredItem(id: string, name: string): Promise<void> {
+  const backend = await getBackend();
+  const item = await findItemById(id);
+  if (!item) throw new StorageError(`Item ${id} not found.`);
 
-  const attachment = item.attachments?.find((a) => a.fileName === ATTACHMENT_FILENAME);
-  if (!attachment) return null;
+  const target = item.organization ? { organization: item.organization, collections: item.collections ?? [] } : undefined;
+  let copy = await backend.createItem(name, item.notes ?? "", target);
+  if (item.fields?.length) {
+    copy = await backend.updateFields(copy, item.fields);
+  }
+  for (const attachment of item.attachments) {
+    const data = await backend.readAttachment(item, attachment.fileName);
+    if (data) await backend.writeAttachment(copy, attachment.fileName, data);
+  }
+}
 
-  const json = await getAttachment(item.id, attachment.id);
-  const payload = parsePayload(json);
-  return payload.files;
+/**
+ * Fetch a shared payload from `bwrss:<name>`.
+ */
+export async function fetchPayload(canonicalName: string, options: FetchOptions = {}): Promise<FilePayload[] | null> {
+  return fetchFromItem(itemName(canonicalName), options);
 }
 
 /**
@@ -134,14 +416,495 @@ export async function fetchPayload(canonicalName: string): Promise<FilePayload[]
 export async function fetchMachinePayload(
   canonicalName: string,
   machineName: string,
+  options: FetchOptions = {},
+): Promise<FilePayload[] | null> {
+  return fetchFromItem(itemName(canonicalName, machineName), options);
+}
+
+/**
+ * Record fetched generations as seen by this machine once restored, so later
+ * saves are checked against them. A generation with any of its files in
+ * `skipped` (left differing locally) isn't recorded: saving those local files
+ * would otherwise overwrite the remote ones without a conflict.
+ */
+export async function recordFetched(fetched: FetchedGeneration[], skipped: ReadonlySet<string> = new Set()): Promise<void> {
+  for (const generation of fetched) {
+    if (Object.keys(generation.files).some((path) => skipped.has(path))) continue;
+    await recordSeen(generation.ref, generation.timestamp, generation.files);
+  }
+}
+
+/**
+ * Fetch the shared payload and, given a machine name, the machine-specific
+ * one, merged with machine files winning. Returns null if neither exists.
+ */
+export async function fetchMergedPayloads(
+  canonicalName: string,
+  machineName: string | undefined,
+  options: FetchOptions = {},
 ): Promise<FilePayload[] | null> {
-  const item = await findBwrssItemForMachine(canonicalName, machineName);
+  const shared = await fetchPayload(canonicalName, options);
+  const machine = machineName ? await fetchMachinePayload(canonicalName, machineName, options) : null;
+  if (!shared && !machine) return null;
+  return mergePayloads(shared ?? [], machine ?? []);
+}
+
+/**
+ * List the stored payload generations of an item, newest first.
+ * The first entry is the current payload. Returns null if the item doesn't exist.
+ */
+export async function listGenerations(
+  canonicalName: string,
+  machineName?: string,
+  target?: ItemTarget,
+): Promise<PayloadGeneration[] | null> {
+  const backend = await getBackend();
+  const item = await backend.findItem(itemName(canonicalName, machineName), target);
   if (!item) return null;
+  return itemGenerations(item);
+}
+
+/**
+ * Hashes of the files in an item's current payload (`remote`, null if the item
+ * doesn't exist) and as recorded at this machine's last save/restore (`synced`).
+ * Downloads the payload only if the item changed since then.
+ */
+export async function fetchItemHashes(
+  canonicalName: string,
+  machineName?: string,
+  options: Pick<FetchOptions, "encryption" | "target"> = {},
+): Promise<{ remote: Record<string, string> | null; synced: Record<string, string> }> {
+  const backend = await getBackend();
+  const name = itemName(canonicalName, machineName);
+  const item = await backend.findItem(name, options.target);
+  const state = await getItemState(await stateRef(item ?? { name }));
+  const synced = state?.files ?? {};
+  if (!item) return { remote: null, synced };
+
+  const meta = parseMetadata(item.notes);
+  if (state?.files && meta && meta.timestamp === state.timestamp) {
+    return { remote: { ...state.files, ...hashKeyFields(item, meta.keyFields ?? []) }, synced };
+  }
 
-  const attachment = item.attachments?.find((a) => a.fileName === ATTACHMENT_FILENAME);
-  if (!attachment) return null;
+  const files = await readCurrent(item, options.encryption);
+  return { remote: files ? hashFiles(files) : {}, synced };
+}
+
+/**
+ * Resolve a `--at` selector to a point in time (ISO timestamp).
+ * A plain number selects a generation of `bwrss:<name>` (or of the machine item
+ * when there is no shared item); anything else is parsed as a date.
+ */
+export async function resolvePointInTime(
+  canonicalName: string,
+  machineName: string | undefined,
+  selector: string,
+  target?: ItemTarget,
+): Promise<string> {
+  if (/^\d+$/.test(selector)) {
+    const generation = Number(selector);
+    const generations = await listGenerations(canonicalName, undefined, target)
+      ?? (machineName ? await listGenerations(canonicalName, machineName, target) : null);
+    const match = generations?.find((g) => g.generation === generation);
+    if (!match) {
+      throw new StorageError(`No generation ${generation} stored for ${itemName(canonicalName)}. Run 'bwrss history' to list them.`);
+    }
+    return match.timestamp;
+  }
+
+  const date = new Date(selector);
+  if (Number.isNaN(date.getTime())) {
+    throw new StorageError(`Invalid --at value "${selector}": expected a generation number or a date/time.`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Three-way merge of a local payload with a remote payload that changed
+ * concurrently. `base` is the remote payload this machine last saw, if still
+ * in history. Partial `keys` files merge key by key; full files merge only when
+ * one side is unchanged. Throws ConflictError listing what can't be merged.
+ */
+export function mergeConcurrent(
+  base: FilePayload[] | null,
+  remote: FilePayload[],
+  local: FilePayload[],
+): FilePayload[] {
+  const baseByPath = new Map((base ?? []).map((p) => [p.path, p]));
+  const remoteByPath = new Map(remote.map((p) => [p.path, p]));
+  const merged: FilePayload[] = [];
+  const conflicts: string[] = [];
+
+  for (const l of local) {
+    const r = remoteByPath.get(l.path);
+    remoteByPath.delete(l.path);
+    if (!r) {
+      merged.push(l);
+      continue;
+    }
+    const b = baseByPath.get(l.path);
+
+    if (l.keys && r.keys) {
+      const keys: Record<string, string> = {};
+      const allKeys = new Set([...Object.keys(l.keys), ...Object.keys(r.keys)]);
+      for (const key of allKeys) {
+        const lv = l.keys[key];
+        const rv = r.keys[key];
+        const bv = b?.keys?.[key];
+        let value: string | undefined;
+        if (lv === rv || rv === bv) {
+          value = lv;
+        } else if (lv === bv) {
+          value = rv;
+        } else {
+          conflicts.push(`${l.path}:${key}`);
+          continue;
+        }
+        if (value !== undefined) keys[key] = value;
+      }
+      merged.push({ ...l, keys });
+      continue;
+    }
+
+    if (l.content !== undefined && r.content !== undefined) {
+      if (l.content === r.content || (b && r.content === b.content && r.encoding === b.encoding)) {
+        merged.push(l);
+      } else if (b && l.content === b.content && l.encoding === b.encoding) {
+        merged.push(r);
+      } else {
+        conflicts.push(l.path);
+      }
+      continue;
+    }
+
+    conflicts.push(l.path);
+  }
+
+  // Files only the remote has (e.g. added by a teammate) are kept
+  merged.push(...remoteByPath.values());
+
+  if (conflicts.length > 0) {
+    throw new ConflictError(
+      `Cannot merge concurrent changes to ${conflicts.join(", ")}. Restore and re-apply your changes, or use --force to overwrite.`,
+    );
+  }
+  return merged;
+}
+
+async function uploadToItem(
+  name: string,
+  canonicalName: string,
+  payloads: FilePayload[],
+  spinner: Ora,
+  options: UploadOptions,
+): Promise<void> {
+  const backend = await getBackend();
+  const config = await readMachineConfig();
+  const historySize = config.history ?? DEFAULT_HISTORY_SIZE;
+  const layout = config.layout ?? "attachments";
+
+  let item = await backend.findItem(name, options.target);
+  const previous = item ? parseMetadata(item.notes) : null;
+
+  const encryptionConfig = options.encryption ?? config.encryption;
+  if (options.keyFields && encryptionConfig) {
+    throw new ConfigError(`'keyFields' would store the keys of ${name} unencrypted in custom fields; it can't be combined with 'encryption'.`);
+  }
+
+  const state = item ? await getItemState(await stateRef(item)) : undefined;
+  const seen = state?.timestamp;
+  if (item && previous && options.basedOn !== undefined && options.basedOn !== previous.timestamp) {
+    throw new ConflictError(`${name} changed while it was being updated. Try again.`);
+  }
+
+  // Refuse to overwrite a remote payload this machine hasn't seen
+  if (item && previous && !options.force && options.basedOn === undefined) {
+    // Key fields edited in Bitwarden don't change the save timestamp
+    const edited = Object.entries(hashKeyFields(item, previous.keyFields ?? []))
+      .filter(([path, hash]) => state?.files?.[path] !== hash)
+      .map(([path]) => path);
+    if (seen !== previous.timestamp || edited.length > 0) {
+      if (!options.merge) {
+        throw new ConflictError(
+          seen !== previous.timestamp
+            ? seen
+              ? `${name} was changed remotely (saved ${previous.timestamp}, last seen here ${seen}). Use --merge to combine or --force to overwrite.`
+              : `${name} already exists but was never saved or restored on this machine. Restore it first, or use --merge / --force.`
+            : `Keys of ${edited.join(", ")} were edited in ${name} since this machine last saved or restored. Use --merge to combine or --force to overwrite.`,
+        );
+      }
+      spinner.text = `Merging remote changes in ${name}...`;
+      const remote = await readCurrent(item, options.encryption);
+      const baseGeneration = seen ? itemGenerations(item).find((g) => g.timestamp === seen) : undefined;
+      const base = baseGeneration ? await readGeneration(item, baseGeneration, options.encryption) : null;
+      payloads = mergeConcurrent(base, remote ?? [], payloads);
+    }
+  }
+
+  // Timestamps must increase strictly so `--at` can tell generations apart
+  let timestamp = new Date().toISOString();
+  if (previous && timestamp <= previous.timestamp) {
+    timestamp = new Date(new Date(previous.timestamp).getTime() + 1).toISOString();
+  }
+  const keyFieldPaths = options.keyFields ? payloads.filter((f) => f.keys).map((f) => f.path) : [];
+  // Payload JSON → gzip (large payloads) → encrypt (if configured) → chunks
+  const { data: compressed, compression } = await compressPayload(buildPayload(canonicalName, payloads, timestamp));
+  let data = compressed;
+  let encryption: PayloadEncryption | undefined;
+  if (encryptionConfig) {
+    spinner.text = `Encrypting payload for ${name}...`;
+    ({ data, encryption } = await encryptPayload(data, await readEncryptionPassphrase(encryptionConfig)));
+  }
+  const integrity = computeIntegrity(data, await getIntegrityKey());
+  const previousGeneration = previous?.generation ?? (previous ? 1 : 0);
+  // Chunks get names of their own generation, so they never overwrite the
+  // chunks of the payload the notes still describe
+  const attachments = splitAttachments(
+    compression ? currentAttachmentName(previousGeneration + 1) : ATTACHMENT_FILENAME,
+    data,
+    compression,
+  );
+
+  // Keep the current payload as a history generation before replacing it
+  const currentGeneration = item ? itemGenerations(item)[0]! : undefined;
+  let history = previous?.history ?? [];
+
+  if (item && previous && currentGeneration && historySize > 0) {
+    const current = await readAttachments(item, currentGeneration);
+    if (current) {
+      spinner.text = `Keeping generation ${previousGeneration} of ${name}...`;
+      const attachment = historyAttachmentName(previousGeneration);
+      const names = currentGeneration.chunks ? chunkAttachmentNames(attachment, current.length) : [attachment];
+      item = await writeBlobs(backend, item, layout, current.map((data, i) => ({ name: names[i]!, data })));
+      history = [
+        {
+          ...currentGeneration,
+          generation: previousGeneration,
+          attachment: names[0]!,
+          ...(currentGeneration.chunks ? { chunks: names } : {}),
+        },
+        ...history.filter((h) => h.generation !== previousGeneration),
+      ];
+    }
+  }
+
+  const expired = history.slice(historySize);
+  history = history.slice(0, historySize);
+
+  const metadata = buildMetadata(canonicalName, payloads, {
+    timestamp,
+    generation: previousGeneration + 1,
+    history,
+    integrity,
+    encryption,
+    compression,
+    ...(compression ? { chunks: attachments.map((a) => a.name) } : {}),
+    keyFields: keyFieldPaths,
+  });
+
+  if (!item) {
+    spinner.text = `Creating new note ${name}...`;
+    item = await backend.createItem(name, "", options.target);
+  }
+
+  // The payload goes up before the notes describing it, so an interrupted
+  // save leaves the item at its previous generation
+  if (layout === "fields") {
+    spinner.text = `Storing payload in ${name}...`;
+  } else {
+    spinner.text = attachments.length > 1
+      ? `Uploading ${attachments.length} attachments to ${name}...`
+      : `Uploading attachment to ${name}...`;
+  }
+  item = await writeBlobs(backend, item, layout, attachments);
+
+  spinner.text = `Updating note ${name}...`;
+  item = await backend.updateNotes(item, metadata);
+
+  // Drop the previous payload's attachments that the new one didn't overwrite
+  const written = new Set(attachments.map((a) => a.name));
+  const stale = currentGeneration ? generationAttachments(currentGeneration).filter((a) => !written.has(a)) : [];
+  item = await deleteBlobs(backend, item, [...stale, ...expired.flatMap(generationAttachments)]);
+
+  // Mirror partial-file keys into hidden fields, replacing those of the previous save
+  const replacedPaths = [...(previous?.keyFields ?? []), ...keyFieldPaths];
+  if (replacedPaths.length > 0) {
+    spinner.text = `Writing key fields to ${name}...`;
+    const keyFields = buildKeyFields(payloads.filter((f) => keyFieldPaths.includes(f.path)));
+    await backend.updateFields(item, replaceKeyFields(item, replacedPaths, keyFields));
+  }
+
+  if (options.record !== false && (options.basedOn === undefined || seen === options.basedOn)) {
+    await recordSeen(await stateRef(item), timestamp, hashFiles(payloads));
+  }
+}
+
+async function findItemById(id: string): Promise<StoredItem | undefined> {
+  const backend = await getBackend();
+  return (await backend.listItems("bwrss:")).find((i) => i.id === id);
+}
+
+/**
+ * Save `rewrite` of an item's current payload, checking that the item is
+ * still at the generation that was read.
+ */
+async function rewriteItem(
+  canonicalName: string,
+  machineName: string | undefined,
+  rewrite: (files: FilePayload[]) => FilePayload[],
+  spinner: Ora,
+  options: UploadOptions,
+): Promise<void> {
+  const backend = await getBackend();
+  const name = itemName(canonicalName, machineName);
+  const item = await backend.findItem(name, options.target);
+  const files = (item && await readCurrent(item, options.encryption)) ?? [];
+
+  const basedOn = item ? parseMetadata(item.notes)?.timestamp : undefined;
+  await uploadToItem(name, canonicalName, rewrite(files), spinner, { ...options, ...(basedOn ? { basedOn } : {}) });
+}
+
+async function fetchFromItem(name: string, options: FetchOptions): Promise<FilePayload[] | null> {
+  const backend = await getBackend();
+  const item = await backend.findItem(name, options.target);
+  if (!item) return null;
+
+  let generation = itemGenerations(item)[0]!;
+  if (options.at) {
+    const at = options.at;
+    const match = itemGenerations(item).find((g) => g.timestamp <= at);
+    if (!match) return null;
+    generation = match;
+  }
+
+  let files = await readGeneration(item, generation, options.encryption);
+  if (!files) return null;
+  if (generation.generation === itemGenerations(item)[0]!.generation) {
+    files = applyKeyFields(item, parseMetadata(item.notes)?.keyFields, files);
+  }
+
+  if (options.fetched && !options.at) {
+    options.fetched.push({ ref: await stateRef(item), timestamp: generation.timestamp, files: hashFiles(files) });
+  }
+  return files;
+}
+
+/**
+ * Download a payload generation, verify its integrity, decrypt and decompress
+ * it if needed. Returns null if its attachment is missing.
+ */
+async function readGeneration(
+  item: StoredItem,
+  generation: PayloadGeneration,
+  encryptionConfig?: EncryptionConfig,
+): Promise<FilePayload[] | null> {
+  const chunks = await readAttachments(item, generation);
+  if (!chunks) return null;
+
+  const isCurrent = generation.generation === itemGenerations(item)[0]!.generation;
+  const source = isCurrent ? item.name : `${item.name} (generation ${generation.generation})`;
+  const fileDigests = isCurrent ? parseMetadata(item.notes)?.digests : undefined;
+  let data: Buffer = Buffer.concat(chunks);
+  verifyAttachment(data, source, generation, await getIntegrityKey());
+
+  if (generation.encryption) {
+    // Without a configured source, try the default passphrase variable
+    const config = encryptionConfig ?? (await readMachineConfig()).encryption ?? {};
+    if (!config.keyFile && !process.env[config.passphraseEnv ?? DEFAULT_PASSPHRASE_ENV]) {
+      throw new EncryptionError(
+        `${source} is encrypted. Set ${config.passphraseEnv ?? DEFAULT_PASSPHRASE_ENV} or configure 'encryption' in .bwrss or the machine config.`,
+      );
+    }
+    data = await decryptPayload(data, generation.encryption, await readEncryptionPassphrase(config), source);
+  }
+
+  const json = await decompressPayload(data, generation.compression, source);
+  const payload = verifyPayload(json, source, { fileDigests });
+  return payload.files.map(({ sha256: _, ...file }) => file);
+}
+
+/**
+ * Read an item's current payload, taking partial-file keys from its key fields
+ * so values edited in Bitwarden win. Returns null if its attachment is missing.
+ */
+async function readCurrent(item: StoredItem, encryptionConfig?: EncryptionConfig): Promise<FilePayload[] | null> {
+  const files = await readGeneration(item, itemGenerations(item)[0]!, encryptionConfig);
+  return files && applyKeyFields(item, parseMetadata(item.notes)?.keyFields, files);
+}
+
+/**
+ * Key for signing and verifying payloads, from `BWRSS_INTEGRITY_KEY` or the
+ * machine config's `integrityKeyFile`. Undefined if neither is set.
+ */
+async function getIntegrityKey(): Promise<Buffer | undefined> {
+  if (process.env.BWRSS_INTEGRITY_KEY) {
+    return Buffer.from(process.env.BWRSS_INTEGRITY_KEY, "utf-8");
+  }
+  const config = await readMachineConfig();
+  if (!config.integrityKeyFile) return undefined;
+
+  const path = expandHomePath(config.integrityKeyFile);
+  try {
+    return Buffer.from((await readFile(path, "utf-8")).trim(), "utf-8");
+  } catch {
+    throw new IntegrityError(`Cannot read integrity key file ${path}`);
+  }
+}
+
+/**
+ * Download the attachments of a payload generation, in chunk order.
+ * Returns null if the generation has no attachments left; throws if only some are missing.
+ */
+async function readAttachments(item: StoredItem, generation: PayloadGeneration): Promise<Buffer[] | null> {
+  const backend = await getBackend();
+  const names = generationAttachments(generation);
+  const chunks: Buffer[] = [];
+  for (const name of names) {
+    const chunk = await readBlob(backend, item, name);
+    if (chunk !== null) chunks.push(chunk);
+  }
+  if (chunks.length === 0) return null;
+  if (chunks.length < names.length) {
+    throw new IntegrityError(`Corrupted ${item.name}: ${names.length - chunks.length} of ${names.length} attachments are missing.`);
+  }
+  return chunks;
+}
+
+/**
+ * Base name of the chunks of the current payload saved as `generation`.
+ */
+function currentAttachmentName(generation: number): string {
+  return ATTACHMENT_FILENAME.replace(/\.json$/, `-${generation}.json`);
+}
+
+/**
+ * Where this machine's sync state of an item is kept.
+ */
+async function stateRef(item: Pick<StoredItem, "name" | "organization">): Promise<ItemStateRef> {
+  const backend = await getBackend();
+  return { backend: backend.name, name: item.name, ...(item.organization ? { organization: item.organization } : {}) };
+}
+
+function generationAttachments(generation: PayloadGeneration): string[] {
+  return generation.chunks ?? [generation.attachment];
+}
+
+function hashFiles(files: FilePayload[]): Record<string, string> {
+  return Object.fromEntries(files.map((f) => [f.path, hashFilePayload(f)]));
+}
 
-  const json = await getAttachment(item.id, attachment.id);
-  const payload = parsePayload(json);
-  return payload.files;
+function itemGenerations(item: StoredItem): PayloadGeneration[] {
+  const meta = parseMetadata(item.notes);
+  const current: PayloadGeneration = {
+    generation: meta?.generation ?? 1,
+    timestamp: meta?.timestamp ?? "",
+    files: meta?.files ?? [],
+    attachment: meta?.chunks?.[0] ?? ATTACHMENT_FILENAME,
+    ...(meta?.digest ? { digest: meta.digest } : {}),
+    ...(meta?.hmac ? { hmac: meta.hmac } : {}),
+    ...(meta?.encryption ? { encryption: meta.encryption } : {}),
+    ...(meta?.compression ? { compression: meta.compression } : {}),
+    ...(meta?.chunks ? { chunks: meta.chunks } : {}),
+  };
+  return [current, ...(meta?.history ?? [])];
 }
@@ -0,0 +1,47 @@
+import { describe, test, expect } from "bun:test";
+import { parseTemplate, renderTemplate, extractTemplateValues } from "./template.ts";
+
+const TEMPLATE = `# Generated from .env.template
+DB_HOST=db.internal
+DB_PASSWORD={{ bwrss "DB_PASSWORD" }}
+STRIPE_KEY={{ bw "Stripe/secret key" }}
+API_TOKEN={{bwrss "API_TOKEN"}}
+`;
+
+describe("parseTemplate", () => {
+  test("splits text and placeholders", () => {
+    expect(parseTemplate("A={{ bwrss \"A\" }}\nB={{ bw \"Prod DB/password\" }}\n", "t")).toEqual([
+      "A=",
+      { kind: "bwrss", key: "A" },
+      "\nB=",
+      { kind: "bw", ref: "bw://Prod DB/password" },
+      "\n",
+    ]);
+  });
+
+  test("reads other bw placeholders as custom fields", () => {
+    expect(parseTemplate("{{ bw \"Stripe/secret key\" }}", "t")).toEqual([{ kind: "bw", ref: "bw://Stripe/fields/secret key" }]);
+    expect(() => parseTemplate("{{ bw \"Stripe\" }}", "t")).toThrow("Invalid placeholder");
+  });
+});
+
+describe("renderTemplate / extractTemplateValues", () => {
+  const parts = parseTemplate(TEMPLATE, ".env.template");
+
+  test("renders and recovers the saved values", () => {
+    const text = renderTemplate(parts, { DB_PASSWORD: "hunter2", API_TOKEN: "t0k=en" }, { "bw://Stripe/fields/secret key": "sk_live" }, "t");
+    expect(text).toContain("DB_PASSWORD=hunter2\nSTRIPE_KEY=sk_live\nAPI_TOKEN=t0k=en\n");
+    expect(extractTemplateValues(parts, text)).toEqual({ DB_PASSWORD: "hunter2", API_TOKEN: "t0k=en" });
+  });
+
+  test("fails on missing values", () => {
+    expect(() => renderTemplate(parts, { DB_PASSWORD: "x" }, { "bw://Stripe/fields/secret key": "" }, ".env.template")).toThrow('"API_TOKEN"');
+  });
+
+  test("returns null when the file no longer matches", () => {
+    expect(extractTemplateValues(parts, "DB_PASSWORD=x\n")).toBeNull();
+    const twice = parseTemplate("{{ bwrss \"A\" }}:{{ bwrss \"A\" }}", "t");
+    expect(extractTemplateValues(twice, "1:1")).toEqual({ A: "1" });
+    expect(extractTemplateValues(twice, "1:2")).toBeNull();
+  });
+});
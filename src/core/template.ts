@@ -0,0 +1,110 @@
+import { readFile, writeFile } from "node:fs/promises";
+import type { FilePayload } from "../types/index.ts";
+import { parseReference, resolveReferences, REFERENCE_PREFIX } from "./references.ts";
+import { setFileMode, SECRET_FILE_MODE } from "../util/permissions.ts";
+import { ConfigError, StorageError } from "../util/errors.ts";
+
+/** `{{ bwrss "KEY" }}` or `{{ bw "item/value" }}` */
+const PLACEHOLDER = /\{\{\s*(bwrss|bw)\s+"([^"]+)"\s*\}\}/g;
+
+/** A template split into literal text and placeholders */
+export type TemplatePart =
+  | string
+  | { kind: "bwrss"; key: string }
+  | { kind: "bw"; ref: string };
+
+/**
+ * Split template text into literal text and placeholders.
+ * `{{ bw "..." }}` takes the forms of `bw://` references without the prefix,
+ * plus `<item>/<field name>` for custom fields.
+ */
+export function parseTemplate(text: string, source: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    if (match.index > last) parts.push(text.slice(last, match.index));
+    const [, kind, arg] = match;
+    parts.push(kind === "bwrss" ? { kind: "bwrss", key: arg! } : { kind: "bw", ref: templateReference(arg!, source) });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+}
+
+function templateReference(arg: string, source: string): string {
+  const ref = `${REFERENCE_PREFIX}${arg}`;
+  try {
+    parseReference(ref);
+    return ref;
+  } catch {
+    const slash = arg.lastIndexOf("/");
+    if (slash <= 0 || slash === arg.length - 1) {
+      throw new ConfigError(`Invalid placeholder {{ bw "${arg}" }} in ${source}: expected "<item>/<field>" or "<item>/password"`);
+    }
+    return `${REFERENCE_PREFIX}${arg.slice(0, slash)}/fields/${arg.slice(slash + 1)}`;
+  }
+}
+
+/**
+ * Fill a template's placeholders: `bwrss` keys from `keys`, `bw` references from `refs`.
+ * Throws StorageError if a `bwrss` key has no value.
+ */
+export function renderTemplate(
+  parts: TemplatePart[],
+  keys: Record<string, string>,
+  refs: Record<string, string>,
+  source: string,
+): string {
+  return parts.map((part) => {
+    if (typeof part === "string") return part;
+    if (part.kind === "bw") return refs[part.ref]!;
+    const value = keys[part.key];
+    if (value === undefined) {
+      throw new StorageError(`No saved value for "${part.key}" in ${source}. Fill it in, render again and save.`);
+    }
+    return value;
+  }).join("");
+}
+
+/**
+ * Recover the `bwrss` values from a file rendered from the template, so save
+ * can store them. Returns null if the file no longer matches the template.
+ */
+export function extractTemplateValues(parts: TemplatePart[], text: string): Record<string, string> | null {
+  const pattern = parts.map((part) => {
+    if (typeof part === "string") return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return part.kind === "bwrss" ? "([\\s\\S]*?)" : "[\\s\\S]*?";
+  }).join("");
+  const match = new RegExp(`^${pattern}$`).exec(text);
+  if (!match) return null;
+
+  const keys: Record<string, string> = {};
+  let group = 1;
+  for (const part of parts) {
+    if (typeof part === "string" || part.kind !== "bwrss") continue;
+    const value = match[group++]!;
+    // A key used twice must have been rendered the same way both times
+    if (keys[part.key] !== undefined && keys[part.key] !== value) return null;
+    keys[part.key] = value;
+  }
+  return keys;
+}
+
+/**
+ * Render a managed file from its template with the saved keys and the current
+ * values of referenced items, and write it with restricted permissions.
+ */
+export async function renderTemplateFile(
+  templatePath: string,
+  filePath: string,
+  templateName: string,
+  payload: FilePayload | undefined,
+): Promise<void> {
+  const parts = parseTemplate(await readFile(templatePath, "utf-8"), templateName);
+  const refs = Object.fromEntries(
+    parts.flatMap((p) => (typeof p !== "string" && p.kind === "bw" ? [[p.ref, p.ref]] : [])),
+  );
+  const text = renderTemplate(parts, payload?.keys ?? {}, await resolveReferences(refs), templateName);
+  await writeFile(filePath, text, { encoding: "utf-8", mode: SECRET_FILE_MODE });
+  await setFileMode(filePath, SECRET_FILE_MODE);
+}
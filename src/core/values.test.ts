@@ -0,0 +1,52 @@
+import { describe, test, expect } from "bun:test";
+import type { ManagedFile } from "../types/index.ts";
+import { parseKeySpec, readValue, writeValue } from "./values.ts";
+
+const FILES: ManagedFile[] = [
+  { path: ".env", keys: ["API_*"], refs: { DB_PASSWORD: "bw://Prod DB/password" } },
+  { path: "config/app.json" },
+  { path: "config/app.json:v2" },
+  { path: "cert.pem" },
+];
+
+describe("parseKeySpec", () => {
+  test("splits file, key and value", () => {
+    expect(parseKeySpec(".env:API_KEY", FILES)).toEqual({ file: FILES[0]!, key: "API_KEY" });
+    expect(parseKeySpec(".env:API_KEY=a=b", FILES)).toEqual({ file: FILES[0]!, key: "API_KEY", value: "a=b" });
+    expect(parseKeySpec(".env:API_KEY=", FILES)).toEqual({ file: FILES[0]!, key: "API_KEY", value: "" });
+  });
+
+  test("matches the longest managed path", () => {
+    expect(parseKeySpec("config/app.json:v2:db.password", FILES).file).toBe(FILES[2]!);
+  });
+
+  test("rejects unknown files and missing keys", () => {
+    expect(() => parseKeySpec("other.env:A", FILES)).toThrow("managed in .bwrss");
+    expect(() => parseKeySpec(".env:=x", FILES)).toThrow("No key");
+  });
+});
+
+describe("readValue / writeValue", () => {
+  test("reads and writes partial keys", () => {
+    const stored = { path: ".env", keys: { API_KEY: "old" }, mode: 0o600 };
+    const updated = writeValue(FILES[0]!, stored, "API_KEY", "new");
+    expect(updated).toEqual({ path: ".env", keys: { API_KEY: "new" }, mode: 0o600 });
+    expect(readValue(updated, "API_KEY")).toBe("new");
+    expect(writeValue(FILES[0]!, undefined, "API_TOKEN", "t")).toEqual({ path: ".env", keys: { API_TOKEN: "t" } });
+  });
+
+  test("merges into full files with a parser", () => {
+    const stored = { path: "config/app.json", content: '{\n  "db": {\n    "password": "old"\n  }\n}\n' };
+    const updated = writeValue(FILES[1]!, stored, "db.password", "new");
+    expect(readValue(updated, "db.password")).toBe("new");
+    expect(readValue(updated, "db.user")).toBeUndefined();
+  });
+
+  test("rejects keys it can't store", () => {
+    expect(() => writeValue(FILES[0]!, undefined, "OTHER", "x")).toThrow("doesn't match the keys");
+    expect(() => writeValue(FILES[0]!, undefined, "DB_PASSWORD", "x")).toThrow("bw://Prod DB/password");
+    expect(() => writeValue(FILES[3]!, { path: "cert.pem", content: "x" }, "a", "x")).toThrow("No parser");
+    expect(() => writeValue(FILES[1]!, undefined, "a", "x")).toThrow("Nothing saved");
+    expect(() => readValue({ path: "app.json", content: "AA==", encoding: "base64" }, "a")).toThrow("binary");
+  });
+});
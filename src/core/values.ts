@@ -0,0 +1,83 @@
+import type { FilePayload, ManagedFile } from "../types/index.ts";
+import { getParser } from "../parsers/index.ts";
+import { matchGlob } from "../util/dotpath.ts";
+import { ConfigError, ParserError, StorageError } from "../util/errors.ts";
+
+/** A single key of a managed file, as given to `bwrss get` / `bwrss set` */
+export interface KeySpec {
+  file: ManagedFile;
+  key: string;
+  /** Present for `<file>:<key>=<value>` */
+  value?: string;
+}
+
+/**
+ * Parse `<file>:<key>` or `<file>:<key>=<value>` against the managed files.
+ * The file is matched by its full path, so paths may contain colons.
+ */
+export function parseKeySpec(spec: string, files: ManagedFile[]): KeySpec {
+  const file = files
+    .filter((f) => spec.startsWith(`${f.path}:`))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+  if (!file) {
+    throw new ConfigError(`Expected <file>:<key> with a file managed in .bwrss, got "${spec}".`);
+  }
+
+  const rest = spec.slice(file.path.length + 1);
+  const eq = rest.indexOf("=");
+  const key = eq === -1 ? rest : rest.slice(0, eq);
+  if (!key) {
+    throw new ConfigError(`No key given in "${spec}".`);
+  }
+  return eq === -1 ? { file, key } : { file, key, value: rest.slice(eq + 1) };
+}
+
+/**
+ * Value of a key in a stored file: from its keys, or parsed from its content.
+ * Returns undefined if the key isn't set.
+ */
+export function readValue(payload: FilePayload, key: string): string | undefined {
+  if (payload.keys) return payload.keys[key];
+  return parseContent(payload)[key];
+}
+
+/**
+ * New version of a stored file with `key` set to `value`. Partial files get
+ * the key (if it matches their `keys` patterns); full files have it merged
+ * into their content. `payload` is undefined when nothing is stored yet.
+ */
+export function writeValue(
+  managedFile: ManagedFile,
+  payload: FilePayload | undefined,
+  key: string,
+  value: string,
+): FilePayload {
+  if (managedFile.refs?.[key]) {
+    throw new ConfigError(`${managedFile.path}:${key} is filled from ${managedFile.refs[key]}. Change it in that item instead.`);
+  }
+
+  if (payload?.content !== undefined) {
+    parseContent(payload);
+    return { ...payload, content: getParser(payload.path)!.merge(payload.content, { [key]: value }) };
+  }
+
+  const partial = managedFile.template || (managedFile.keys?.length && getParser(managedFile.path));
+  if (!payload && !partial) {
+    throw new StorageError(`Nothing saved for ${managedFile.path} yet. Save the whole file first.`);
+  }
+  if (managedFile.keys?.length && !managedFile.keys.some((pattern) => matchGlob(key, pattern))) {
+    throw new ConfigError(`${key} doesn't match the keys managed in ${managedFile.path} (${managedFile.keys.join(", ")}).`);
+  }
+  return { ...(payload ?? { path: managedFile.path }), keys: { ...payload?.keys, [key]: value } };
+}
+
+function parseContent(payload: FilePayload): Record<string, string> {
+  const parser = getParser(payload.path);
+  if (payload.encoding === "base64") {
+    throw new ParserError(`${payload.path} is a binary file; it has no keys.`);
+  }
+  if (!parser) {
+    throw new ParserError(`No parser for ${payload.path}; it's stored as a whole file.`);
+  }
+  return parser.parse(payload.content ?? "");
+}
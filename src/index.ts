@@ -1,10 +1,26 @@
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import { scanCommand } from "./commands/scan.ts";
 import { initCommand } from "./commands/init.ts";
 import { saveCommand } from "./commands/save.ts";
 import { restoreCommand } from "./commands/restore.ts";
-import { homeInitCommand, homeListCommand, homeScanCommand, homeAddCommand, homeRemoveCommand, homeIgnoreCommand, homeSaveCommand, homeRestoreCommand } from "./commands/home.ts";
+import { renderCommand } from "./commands/render.ts";
+import { runCommand } from "./commands/run.ts";
+import { exportCommand } from "./commands/export.ts";
+import { getCommand } from "./commands/get.ts";
+import { setCommand } from "./commands/set.ts";
+import { diffCommand } from "./commands/diff.ts";
+import { historyCommand } from "./commands/history.ts";
+import { statusCommand } from "./commands/status.ts";
+import { listCommand } from "./commands/list.ts";
+import { pruneCommand } from "./commands/prune.ts";
+import { renameCommand } from "./commands/rename.ts";
+import { machineListCommand, machineRenameCommand, machineCopyCommand, machineDeleteCommand } from "./commands/machine.ts";
+import { homeInitCommand, homeListCommand, homeScanCommand, homeAddCommand, homeRemoveCommand, homeIgnoreCommand, homeSaveCommand, homeRestoreCommand, homeDiffCommand, homeStatusCommand } from "./commands/home.ts";
 import { ensureSession } from "./core/bitwarden.ts";
+import { resolveBwServeUrl } from "./core/bw-serve.ts";
+import { readMachineConfig } from "./core/machine-config.ts";
+import { getBackend, closeBackend } from "./backends/index.ts";
+import { EXPORT_FORMATS, type ExportFormat } from "./core/export.ts";
 import { log } from "./util/logger.ts";
 
 const program = new Command();
@@ -17,10 +33,16 @@ program
 
 /**
  * Helper: read the global --bw-session option and call ensureSession().
+ * Skipped when a non-Bitwarden storage backend is configured, or when
+ * `bw serve` is used without --bw-session.
  */
-function requireSession(cmd: Command): void {
+async function requireSession(cmd: Command): Promise<void> {
   const opts = cmd.optsWithGlobals();
   try {
+    const backend = await getBackend();
+    if (backend.name !== "bitwarden") return;
+    // A running `bw serve` holds its own unlocked session
+    if (resolveBwServeUrl(await readMachineConfig()) && !opts.bwSession) return;
     ensureSession(opts.bwSession);
   } catch (e) {
     log.error(e instanceof Error ? e.message : String(e));
@@ -28,6 +50,32 @@ function requireSession(cmd: Command): void {
   }
 }
 
+/**
+ * Helper: parse --jobs as a positive integer.
+ */
+function parseJobs(value: string): number {
+  const jobs = Number(value);
+  if (!Number.isInteger(jobs) || jobs < 1) {
+    throw new InvalidArgumentError("Expected a positive integer.");
+  }
+  return jobs;
+}
+
+function parseDays(value: string): number {
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1) {
+    throw new InvalidArgumentError("Expected a positive number of days.");
+  }
+  return days;
+}
+
+function parseFormat(value: string): ExportFormat {
+  if (!(EXPORT_FORMATS as readonly string[]).includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${EXPORT_FORMATS.join(", ")}.`);
+  }
+  return value as ExportFormat;
+}
+
 program
   .command("scan")
   .description("Scan directories for repos with secret files")
@@ -46,6 +94,9 @@ program
   .description("Save secrets to Bitwarden")
   .argument("[dirs...]", "Repo directories to save (default: current directory)")
   .option("--dry-run", "Show what would be saved without writing to Bitwarden")
+  .option("--force", "Overwrite remote changes made since this machine last saved or restored")
+  .option("--merge", "Merge remote changes made since this machine last saved or restored")
+  .option("--jobs <n>", "Save up to n repos in parallel and print a summary", parseJobs)
   .hook("preAction", (thisCommand) => requireSession(thisCommand))
   .action((dirs: string[], opts) => saveCommand(dirs.length ? dirs : ["."], opts));
 
@@ -55,9 +106,104 @@ program
   .argument("[dirs...]", "Repo directories to restore (default: current directory)")
   .option("--dry-run", "Show what would be restored without writing files")
   .option("--force", "Overwrite existing local files")
+  .option("--at <gen|timestamp>", "Restore a previous payload generation (see 'bwrss history')")
+  .option("--jobs <n>", "Restore up to n repos in parallel and print a summary", parseJobs)
   .hook("preAction", (thisCommand) => requireSession(thisCommand))
   .action((dirs: string[], opts) => restoreCommand(dirs.length ? dirs : ["."], opts));
 
+program
+  .command("render")
+  .description("Render secret files from their templates")
+  .argument("[dirs...]", "Repo directories to render (default: current directory)")
+  .option("--dry-run", "Show which files would be rendered without writing them")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((dirs: string[], opts) => renderCommand(dirs.length ? dirs : ["."], opts));
+
+program
+  .command("run")
+  .description("Run a command with the repo's secrets as environment variables")
+  .argument("<command...>", "Command to run, after -- (e.g. bwrss run -- npm start)")
+  .option("--dir <dir>", "Repo directory (default: current directory)")
+  .option("--file <paths...>", "Only take variables from these managed files")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((command: string[], opts) => runCommand(command, opts));
+
+program
+  .command("export")
+  .description("Print the repo's secrets to stdout")
+  .argument("[dir]", "Repo directory (default: current directory)", ".")
+  .option("--file <paths...>", "Only export variables from these managed files")
+  .option("--format <format>", `Output format: ${EXPORT_FORMATS.join(", ")}`, parseFormat, "dotenv" as ExportFormat)
+  .option("--name <name>", "Secret name for k8s-secret (default: from the repo name)")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((dir: string, opts) => exportCommand(dir, opts));
+
+program
+  .command("get")
+  .description("Print one stored value")
+  .argument("<file:key>", "Managed file and key (e.g. .env:API_KEY)")
+  .option("--dir <dir>", "Repo directory (default: current directory)")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((spec: string, opts) => getCommand(spec, opts));
+
+program
+  .command("set")
+  .description("Change one stored value without saving the whole repo")
+  .argument("<file:key[=value]>", "Managed file, key and new value (value from stdin if omitted)")
+  .option("--dir <dir>", "Repo directory (default: current directory)")
+  .option("--local", "Also update the key in the local file")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((spec: string, opts) => setCommand(spec, opts));
+
+program
+  .command("list")
+  .description("List repos managed by bwrss")
+  .argument("[dirs...]", "Directories to search for repos (default: current directory)")
+  .option("--remote", "List every bwrss item stored in the vault instead")
+  .option("--json", "Print JSON")
+  .hook("preAction", (thisCommand) => thisCommand.opts().remote ? requireSession(thisCommand) : undefined)
+  .action((dirs: string[], opts) => listCommand(dirs.length ? dirs : ["."], opts));
+
+program
+  .command("prune")
+  .description("Remove vault items and files that are no longer used")
+  .argument("<dirs...>", "Directories holding all your repos (items for repos not found are proposed for deletion)")
+  .option("--dry-run", "Show what would be removed without changing anything")
+  .option("--yes", "Don't ask before each change")
+  .option("--older-than <days>", "Machine items not saved for this many days are stale", parseDays, 90)
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((dirs: string[], opts) => pruneCommand(dirs, opts));
+
+program
+  .command("rename")
+  .description("Move a repo's items from its previous name after a rename or transfer")
+  .argument("[dir]", "Repo directory (default: current directory)", ".")
+  .requiredOption("--from <old>", "Previous canonical name (e.g. github.com/old-org/repo)")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((dir: string, opts) => renameCommand(dir, opts));
+
+program
+  .command("history")
+  .description("List saved payload generations")
+  .argument("[dirs...]", "Repo directories (default: current directory)")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((dirs: string[]) => historyCommand(dirs.length ? dirs : ["."]));
+
+program
+  .command("diff")
+  .description("Compare local secret files against Bitwarden")
+  .argument("[dirs...]", "Repo directories to compare (default: current directory)")
+  .option("--show-values", "Show secret values instead of redacting them")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((dirs: string[], opts) => diffCommand(dirs.length ? dirs : ["."], opts));
+
+program
+  .command("status")
+  .description("Show whether managed files are in sync with Bitwarden")
+  .argument("[dirs...]", "Repo directories to check (default: current directory)")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action((dirs: string[]) => statusCommand(dirs.length ? dirs : ["."]));
+
 const home = program
   .command("home")
   .description("Manage secrets in your home directory");
@@ -106,6 +252,8 @@ home
   .command("save")
   .description("Save home secrets to Bitwarden")
   .option("--dry-run", "Show what would be saved without writing to Bitwarden")
+  .option("--force", "Overwrite remote changes made since this machine last saved or restored")
+  .option("--merge", "Merge remote changes made since this machine last saved or restored")
   .hook("preAction", (thisCommand) => requireSession(thisCommand))
   .action(homeSaveCommand);
 
@@ -117,4 +265,55 @@ home
   .hook("preAction", (thisCommand) => requireSession(thisCommand))
   .action(homeRestoreCommand);
 
-program.parse();
+home
+  .command("diff")
+  .description("Compare local home files against Bitwarden")
+  .option("--show-values", "Show secret values instead of redacting them")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action(homeDiffCommand);
+
+home
+  .command("status")
+  .description("Show whether home files are in sync with Bitwarden")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action(homeStatusCommand);
+
+const machine = program
+  .command("machine")
+  .description("Manage the machines that have machine-specific items");
+
+machine
+  .command("list")
+  .description("List machines with items in the vault")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action(machineListCommand);
+
+machine
+  .command("rename")
+  .description("Rename a machine's items (e.g. after reinstalling it)")
+  .argument("<old>", "Current machine name")
+  .argument("<new>", "New machine name")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action(machineRenameCommand);
+
+machine
+  .command("copy")
+  .description("Copy a machine's items to another machine (e.g. a replacement laptop)")
+  .argument("<from>", "Machine to copy from")
+  .argument("<to>", "Machine to copy to")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action(machineCopyCommand);
+
+machine
+  .command("delete")
+  .description("Delete all items of a machine")
+  .argument("<name>", "Machine name")
+  .option("--yes", "Don't ask for confirmation")
+  .hook("preAction", (thisCommand) => requireSession(thisCommand))
+  .action(machineDeleteCommand);
+
+try {
+  await program.parseAsync();
+} finally {
+  closeBackend();
+}
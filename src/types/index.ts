@@ -2,9 +2,19 @@
 export interface BwrssConfig {
   version: number;
   name?: string;
+  /** Previous canonical names, tried by restore when nothing is stored under the current one */
+  aliases?: string[];
   files: ManagedFile[];
   /** Glob patterns for files/directories to ignore during scan */
   ignoredFiles?: string[];
+  /** Encrypt payloads client-side before they reach the vault */
+  encryption?: EncryptionConfig;
+  /** Bitwarden organization (name or ID) to keep this repo's items in */
+  organization?: string;
+  /** Collections (names or IDs) within `organization` that new items are added to */
+  collections?: string[];
+  /** Also store each key of partial files as a hidden custom field, editable in Bitwarden */
+  keyFields?: boolean;
 }
 
 export interface ManagedFile {
@@ -12,11 +22,49 @@ export interface ManagedFile {
   keys?: string[];
   /** If true, this file is stored per-machine rather than shared */
   machine?: boolean;
+  /** Keys filled on restore from existing Bitwarden items (`bw://<item>/password`); never saved */
+  refs?: Record<string, string>;
+  /** Template (relative to the repo root) the file is rendered from; only its `bwrss` values are saved */
+  template?: string;
 }
 
 /** Machine-level config stored at ~/.config/bwrss/config.yaml */
 export interface MachineConfig {
   machine?: string;
+  /** Storage backend to use — defaults to "bitwarden" */
+  backend?: BackendName;
+  /** Directory for the local backend (default: ~/.local/share/bwrss/store) */
+  store?: string;
+  /** Number of previous payload generations to keep per item (default: 5, 0 disables) */
+  history?: number;
+  /** File holding the key used to sign payloads with HMAC-SHA256 */
+  integrityKeyFile?: string;
+  /** Encrypt every payload client-side unless a repo config sets its own */
+  encryption?: EncryptionConfig;
+  /** Where payloads are written: "attachments" (default, needs premium) or "fields" */
+  layout?: PayloadLayout;
+  /** Talk to a `bw serve` endpoint instead of running `bw` per call (`true` = http://localhost:8087) */
+  bwServe?: boolean | string;
+  /** Git remotes a repo is named after, in order of preference (default: upstream, origin) */
+  remotes?: string[];
+  /** Hosts replaced in canonical names, e.g. an internal mirror → github.com */
+  hostRewrites?: Record<string, string>;
+}
+
+/** Organization and collections a repo's items are created in and looked up from */
+export interface ItemTarget {
+  /** Organization name or ID */
+  organization: string;
+  /** Collection names or IDs (at least one) */
+  collections: string[];
+}
+
+/** Where the client-side encryption passphrase comes from */
+export interface EncryptionConfig {
+  /** File holding the team passphrase */
+  keyFile?: string;
+  /** Environment variable holding the passphrase (default: BWRSS_ENCRYPTION_PASSPHRASE) */
+  passphraseEnv?: string;
 }
 
 /** A known machine discovered from Bitwarden */
@@ -25,6 +73,25 @@ export interface MachineInfo {
   lastSave: string;
 }
 
+/** A bwrss item found in the vault */
+export interface RemoteItemInfo {
+  id: string;
+  /** Item name (`bwrss:<name>` or `bwrss:<name>@<machine>`) */
+  item: string;
+  /** Canonical repo name (`home` for home directory secrets) */
+  name: string;
+  /** Present for machine-specific items */
+  machine?: string;
+  /** Timestamp of the last save (empty if the metadata is unreadable) */
+  lastSave: string;
+  files: string[];
+  /** Bytes stored for the current payload, after compression and encryption */
+  size: number;
+  encrypted: boolean;
+  /** Organization the item belongs to (personal vault when absent) */
+  organization?: string;
+}
+
 /** Payload stored in Bitwarden attachment */
 export interface BwrssPayload {
   version: number;
@@ -43,16 +110,93 @@ export interface FilePayload {
   mode?: number;
   /** Content encoding — "base64" for binary files, defaults to "utf-8" */
   encoding?: "utf-8" | "base64";
+  /** SHA-256 (hex) of the file's secret data, set on save (see hashFilePayload) */
+  sha256?: string;
+}
+
+/** Integrity data for a stored payload attachment */
+export interface PayloadIntegrity {
+  /** SHA-256 (hex) of the attachment text */
+  digest?: string;
+  /** HMAC-SHA256 (hex) of the attachment text, keyed with the user's integrity key */
+  hmac?: string;
 }
 
+/** How a payload attachment was encrypted, recorded in the metadata */
+export interface PayloadEncryption {
+  /** Always "scrypt-aes-256-gcm" for now */
+  scheme: string;
+  /** Base64 scrypt salt for this attachment */
+  salt: string;
+}
+
+/** Compression applied to a payload before it is (optionally) encrypted and chunked */
+export type PayloadCompression = "gzip";
+
 /** Metadata stored in BW secure note's `notes` field */
-export interface BwrssMetadata {
+export interface BwrssMetadata extends PayloadIntegrity {
   version: number;
   name: string;
   timestamp: string;
   files: string[];
+  /** Save counter, incremented on every save (absent on items saved before history support) */
+  generation?: number;
+  /** Previous payload generations kept as attachments, newest first */
+  history?: PayloadGeneration[];
+  /** SHA-256 of each file in the current payload, keyed by path (omitted when encrypted) */
+  digests?: Record<string, string>;
+  /** Present if the payload attachment is encrypted client-side */
+  encryption?: PayloadEncryption;
+  /** Present if the payload is compressed (large payloads only) */
+  compression?: PayloadCompression;
+  /** Attachments holding the compressed payload, in order (instead of `bwrss-data.json`) */
+  chunks?: string[];
+  /** Partial files whose keys are also stored as hidden fields `<path>:<key>`, which take precedence */
+  keyFields?: string[];
+}
+
+/** A saved payload generation */
+export interface PayloadGeneration extends PayloadIntegrity {
+  generation: number;
+  timestamp: string;
+  files: string[];
+  /** Attachment holding this generation's payload */
+  attachment: string;
+  /** Present if this generation's attachment is encrypted client-side */
+  encryption?: PayloadEncryption;
+  /** Present if this generation's payload is compressed */
+  compression?: PayloadCompression;
+  /** Chunk attachments, in order — `attachment` is the first of them */
+  chunks?: string[];
+}
+
+/** Local sync state stored at ~/.config/bwrss/state.json */
+export interface SyncState {
+  version: number;
+  /**
+   * Keyed by backend, organization and item name (`bitwarden/personal/bwrss:<name>`);
+   * entries written by earlier versions by item name alone
+   */
+  items: Record<string, ItemState>;
+}
+
+export interface ItemState {
+  /** Remote payload timestamp last saved or restored by this machine */
+  timestamp: string;
+  /** Content hash of each file at that time, keyed by path (see hashFilePayload) */
+  files?: Record<string, string>;
 }
 
+/** How a managed file compares to the vault and to the last save/restore */
+export type FileSyncStatus =
+  | "in-sync"
+  | "local-modified"
+  | "remote-modified"
+  | "conflicted"
+  | "local-only"
+  | "remote-only"
+  | "missing";
+
 /** Result from scanning a repo */
 export interface ScanResult {
   repoPath: string;
@@ -74,6 +218,71 @@ export interface FileParser {
   merge(existingContent: string, keys: Record<string, string>): string;
 }
 
+/** Names of the available storage backends */
+export type BackendName = "bitwarden" | "local";
+
+/** Where an item keeps its payloads: as attachments, or in hidden custom fields (free accounts) */
+export type PayloadLayout = "attachments" | "fields";
+
+/** An item as seen through a storage backend (a secure note in Bitwarden) */
+export interface StoredItem {
+  id: string;
+  name: string;
+  notes?: string;
+  attachments: StoredAttachment[];
+  /** Custom fields, all stored hidden */
+  fields?: StoredField[];
+  /** Organization the item belongs to (personal vault when absent) */
+  organization?: string;
+  /** Collections the item belongs to within its organization */
+  collections?: string[];
+}
+
+export interface StoredField {
+  name: string;
+  value: string;
+}
+
+export interface StoredAttachment {
+  id: string;
+  fileName: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/** Storage backend interface — where bwrss items and their attachments live */
+export interface StorageBackend {
+  /** Backend identifier, shown in messages */
+  name: BackendName;
+  /** Check the backend is usable (vault unlocked, passphrase correct) and refresh caches */
+  prepare(): Promise<void>;
+  /**
+   * Find an item by exact name. With a target, only items in that organization
+   * (and one of its collections) match; without, personal items are preferred.
+   */
+  findItem(name: string, target?: ItemTarget): Promise<StoredItem | null>;
+  /** List items whose name contains `search` */
+  listItems(search: string): Promise<StoredItem[]>;
+  /** Create a new item with the given notes, in the target's organization and collections if given */
+  createItem(name: string, notes: string, target?: ItemTarget): Promise<StoredItem>;
+  /** Change the name of an existing item */
+  renameItem(item: StoredItem, name: string): Promise<StoredItem>;
+  /** Replace the notes of an existing item */
+  updateNotes(item: StoredItem, notes: string): Promise<StoredItem>;
+  /** Replace the custom fields of an existing item */
+  updateFields(item: StoredItem, fields: StoredField[]): Promise<StoredItem>;
+  /** Read an attachment by file name, or null if the item has none */
+  readAttachment(item: StoredItem, fileName: string): Promise<Buffer | null>;
+  /** Create or replace an attachment */
+  writeAttachment(item: StoredItem, fileName: string, content: Buffer): Promise<void>;
+  /** Delete an attachment if present */
+  deleteAttachment(item: StoredItem, fileName: string): Promise<void>;
+  /** Delete an item with its attachments */
+  deleteItem(item: StoredItem): Promise<void>;
+  /** Release what the backend holds for the invocation, such as a `bw serve` it started */
+  close(): void;
+}
+
 /** Bitwarden item as returned by `bw` CLI */
 export interface BwItem {
   id: string;
@@ -82,6 +291,23 @@ export interface BwItem {
   notes?: string;
   secureNote?: { type: number };
   attachments?: BwAttachment[];
+  fields?: BwField[];
+  login?: { username?: string | null; password?: string | null; totp?: string | null };
+  organizationId?: string | null;
+  collectionIds?: string[];
+}
+
+/** Organization or collection as returned by `bw list organizations` / `bw list org-collections` */
+export interface BwOrganizationObject {
+  id: string;
+  name: string;
+}
+
+export interface BwField {
+  name: string;
+  value: string | null;
+  /** 0 = text, 1 = hidden, 2 = boolean, 3 = linked */
+  type: number;
 }
 
 export interface BwAttachment {
@@ -0,0 +1,22 @@
+import { describe, test, expect } from "bun:test";
+import { mapConcurrent } from "./concurrency.ts";
+
+describe("mapConcurrent", () => {
+  test("keeps order and never exceeds the limit", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapConcurrent([5, 1, 4, 2, 3], 2, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, n * 2));
+      running--;
+      return n * 10;
+    });
+    expect(results).toEqual([50, 10, 40, 20, 30]);
+    expect(peak).toBe(2);
+  });
+
+  test("handles empty input", async () => {
+    expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { scrypt, randomBytes, createCipheriv, createDecipheriv } from "node:crypto";
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/** scrypt cost parameters (N=2^15, r=8, p=1 — ~32 MiB, well under a second) */
+const SCRYPT_OPTIONS = { N: 1 << 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+/**
+ * Derive a 256-bit key from a passphrase and salt using scrypt.
+ */
+export function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS, (error, key) => {
+      if (error) return reject(error);
+      resolve(key);
+    });
+  });
+}
+
+/**
+ * Generate a random salt for key derivation.
+ */
+export function randomSalt(): Buffer {
+  return randomBytes(16);
+}
+
+/**
+ * Encrypt with AES-256-GCM. Output layout: iv (12) | tag (16) | ciphertext.
+ */
+export function encrypt(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt data produced by `encrypt`. Throws if the key is wrong or the data was modified.
+ */
+export function decrypt(key: Buffer, data: Buffer): Buffer {
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const ciphertext = data.subarray(IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
@@ -0,0 +1,185 @@
+/** A single line-level edit */
+export interface DiffOp {
+  type: "equal" | "add" | "remove";
+  line: string;
+}
+
+/** A change to a single key between two flat key-value maps */
+export interface KeyChange {
+  key: string;
+  status: "added" | "changed" | "removed";
+  oldValue?: string;
+  newValue?: string;
+}
+
+/** Above this many LCS cells, fall back to a whole-file replace */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute a line diff between two arrays of lines using a longest-common-subsequence table.
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Trim common prefix/suffix first — most edits touch a few lines
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffOp[] = a.slice(0, start).map((line) => ({ type: "equal", line }));
+  const tail: DiffOp[] = a.slice(endA).map((line) => ({ type: "equal", line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map((line): DiffOp => ({ type: "remove", line })),
+      ...midB.map((line): DiffOp => ({ type: "add", line })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+  const n = midA.length;
+  const m = midB.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i]![j] = midA[i] === midB[j]
+        ? lcs[i + 1]![j + 1]! + 1
+        : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: "equal", line: midA[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      middle.push({ type: "remove", line: midA[i]! });
+      i++;
+    } else {
+      middle.push({ type: "add", line: midB[j]! });
+      j++;
+    }
+  }
+  while (i < n) middle.push({ type: "remove", line: midA[i++]! });
+  while (j < m) middle.push({ type: "add", line: midB[j++]! });
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Produce a unified diff (as output lines) between two texts.
+ * Returns an empty array when the texts are identical.
+ * `transform` is applied to every emitted line (e.g. to redact values).
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  options: { oldLabel: string; newLabel: string; context?: number; transform?: (line: string) => string },
+): string[] {
+  const context = options.context ?? 3;
+  const transform = options.transform ?? ((line: string) => line);
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  if (ops.every((op) => op.type === "equal")) return [];
+
+  // Track old/new line numbers for each op
+  const positions: { oldLine: number; newLine: number }[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    positions.push({ oldLine, newLine });
+    if (op.type !== "add") oldLine++;
+    if (op.type !== "remove") newLine++;
+  }
+
+  const output = [`--- ${options.oldLabel}`, `+++ ${options.newLabel}`];
+
+  let idx = 0;
+  while (idx < ops.length) {
+    // Find the next change
+    while (idx < ops.length && ops[idx]!.type === "equal") idx++;
+    if (idx >= ops.length) break;
+
+    const hunkStart = Math.max(0, idx - context);
+    // Extend the hunk while changes are within 2*context lines of each other
+    let lastChange = idx;
+    for (let k = idx + 1; k < ops.length; k++) {
+      if (ops[k]!.type !== "equal") lastChange = k;
+      else if (k - lastChange > context * 2) break;
+    }
+    const hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.type !== "add").length;
+    const newCount = hunk.filter((op) => op.type !== "remove").length;
+    const start = positions[hunkStart]!;
+    output.push(`@@ -${start.oldLine},${oldCount} +${start.newLine},${newCount} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === "add" ? "+" : op.type === "remove" ? "-" : " ";
+      output.push(prefix + transform(op.line));
+    }
+
+    idx = hunkEnd;
+  }
+
+  return output;
+}
+
+/**
+ * Compare two flat key-value maps. Keys are reported in `newKeys` order,
+ * followed by keys only present in `oldKeys`.
+ */
+export function diffKeys(oldKeys: Record<string, string>, newKeys: Record<string, string>): KeyChange[] {
+  const changes: KeyChange[] = [];
+  for (const [key, newValue] of Object.entries(newKeys)) {
+    if (!(key in oldKeys)) {
+      changes.push({ key, status: "added", newValue });
+    } else if (oldKeys[key] !== newValue) {
+      changes.push({ key, status: "changed", oldValue: oldKeys[key], newValue });
+    }
+  }
+  for (const [key, oldValue] of Object.entries(oldKeys)) {
+    if (!(key in newKeys)) {
+      changes.push({ key, status: "removed", oldValue });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Mask the value part of a `KEY=value` / `key: value` line, keeping comments,
+ * blank lines and structure visible.
+ */
+export function redactLine(line: string): string {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith("//") || trimmed.startsWith(";")) return line;
+  if (/^\[[^\]]*\]$/.test(trimmed)) return line; // INI/TOML section header
+
+  const match = line.match(/^(\s*[^=:\s][^=:]*?\s*([=:])\s*)(.*)$/);
+  // A line ending in `=`/`==` without a value is more likely base64 padding
+  // (the last line of a PEM body) than an empty key, so it's masked whole below
+  if (match && !(match[2] === "=" && /^=*$/.test(match[3]!))) {
+    const value = match[3]!;
+    // Keep structural openers like `key:` / `"key": {` visible
+    if (!value || /^[{[]\s*$/.test(value)) return line;
+    return `${match[1]}********`;
+  }
+  return line.replace(/\S+/g, "****");
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
@@ -25,3 +25,31 @@ export class ParserError extends BwrssError {
     this.name = "ParserError";
   }
 }
+
+export class StorageError extends BwrssError {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+export class ConflictError extends BwrssError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+export class IntegrityError extends BwrssError {
+  constructor(message: string) {
+    super(message);
+    this.name = "IntegrityError";
+  }
+}
+
+export class EncryptionError extends BwrssError {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptionError";
+  }
+}
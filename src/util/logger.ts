@@ -6,4 +6,33 @@ export const log = {
   warn: (msg: string) => console.log(chalk.yellow("warn"), msg),
   error: (msg: string) => console.error(chalk.red("error"), msg),
   dim: (msg: string) => console.log(chalk.dim(msg)),
+  /** Plain output line */
+  print: (msg = "") => console.log(msg),
 };
+
+export type Logger = typeof log;
+
+/**
+ * A logger that holds its lines until `flush()` — keeps the output of
+ * repos processed in parallel together.
+ */
+export function createBufferedLog(): { log: Logger; flush: () => void } {
+  const lines: (() => void)[] = [];
+  const hold = (line: () => void) => {
+    lines.push(line);
+  };
+  const buffered: Logger = {
+    info: (msg) => hold(() => log.info(msg)),
+    success: (msg) => hold(() => log.success(msg)),
+    warn: (msg) => hold(() => log.warn(msg)),
+    error: (msg) => hold(() => log.error(msg)),
+    dim: (msg) => hold(() => log.dim(msg)),
+    print: (msg) => hold(() => log.print(msg)),
+  };
+  return {
+    log: buffered,
+    flush: () => {
+      for (const line of lines.splice(0)) line();
+    },
+  };
+}
@@ -1,5 +1,8 @@
 import { stat, chmod } from "node:fs/promises";
 
+/** Mode for files bwrss creates that hold secrets: owner read/write only */
+export const SECRET_FILE_MODE = 0o600;
+
 /**
  * Read the permission mode bits of a file.
  */